@@ -1,30 +1,84 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import { table } from 'table';
+import { writeFileSync } from 'fs';
+import { getAddress, isHex, size, type Hex } from 'viem';
+import { generatePrivateKey } from 'viem/accounts';
 import { ContractManager } from '../lib/contract';
 import { config } from '../lib/config';
+import {
+  decryptKeystore,
+  encryptKeystore,
+  isValidAccountName,
+  keystoreAccountExists,
+  listKeystoreAccounts,
+  loadKeystoreAccount,
+  promptPassword,
+  promptSecret,
+  readKeystoreFile,
+  removeKeystoreAccount,
+  saveKeystoreAccount
+} from '../lib/keystore';
 import { 
   logSuccess, 
   logError, 
   logInfo, 
+  logWarning,
   createSpinner, 
+  confirmAction,
   formatAddress 
 } from '../lib/utils';
+import { emitJson, withWei } from '../lib/output';
+
+function validateNewAccountName(name: string): void {
+  if (!isValidAccountName(name)) {
+    logError('Account names may only contain letters, numbers, "-" and "_"');
+    process.exit(1);
+  }
+
+  if (keystoreAccountExists(name)) {
+    logError(`Account "${name}" already exists`);
+    process.exit(1);
+  }
+}
+
+function storeAccount(name: string, privateKey: Hex, password: string): void {
+  const spinner = createSpinner('Encrypting keystore...').start();
+  const keystore = encryptKeystore(privateKey, password);
+  const path = saveKeystoreAccount(name, keystore);
+  spinner.stop();
+
+  const address = getAddress(`0x${keystore.address}`);
+  emitJson({ name, address, path });
+
+  logSuccess(`Account "${name}" saved`);
+  console.log(`Address: ${chalk.green(address)}`);
+  console.log(`Keystore: ${chalk.gray(path)}`);
+  logInfo(`Sign with it using: --account ${name}`);
+}
 
 export const accountsCommand = new Command('accounts')
-  .description('List available accounts on the network')
-  .option('-n, --network <network>', 'Network to use', 'local')
+  .description('List network accounts and manage encrypted keystore accounts')
+  .option('-n, --network <network>', 'Network to use', config.getDefaultNetwork())
   .option('--with-balances', 'Include RBTC balances (slower)')
+  .option('-c, --count <n>', 'Number of dev accounts to derive on local', '10')
   .action(async (options) => {
     try {
+      const count = parseInt(options.count);
+      if (isNaN(count) || count <= 0) {
+        logError('Count must be a positive number');
+        process.exit(1);
+      }
+
       const spinner = createSpinner('Fetching accounts...').start();
 
       const globalOptions = options.parent?.opts() || {};
       const manager = new ContractManager(options.network, undefined, globalOptions.rpcUrl);
-      const accounts = await manager.getAccounts();
+      const accounts = await manager.getAccounts(count);
 
       if (accounts.length === 0) {
         spinner.stop();
+        emitJson({ accounts: [] });
         logInfo('No accounts available on this network');
         logInfo('For local development, ensure Anvil is running with: aon-cli setup start');
         return;
@@ -42,6 +96,14 @@ export const accountsCommand = new Command('accounts')
       spinner.stop();
 
       const network = config.getNetwork(options.network, globalOptions.rpcUrl);
+
+      emitJson({
+        network: network.name,
+        accounts: accounts.map((address, index) =>
+          options.withBalances ? withWei({ index, address, balance: balances[index] }, ['balance']) : { index, address }
+        ),
+      });
+
       console.log(chalk.blue(`Available Accounts (${network.name}):`));
       console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
 
@@ -91,7 +153,7 @@ export const accountsCommand = new Command('accounts')
         logInfo('Use --with-balances to see RBTC balances');
       }
 
-      logInfo('Use these addresses with --private-key or set PRIVATE_KEY environment variable');
+      logInfo('Sign as one of these with --account-index <index>, or store a key with: aon-cli accounts import <name>');
 
     } catch (error) {
       logError(`Failed to fetch accounts: ${error}`);
@@ -102,4 +164,169 @@ export const accountsCommand = new Command('accounts')
       
       process.exit(1);
     }
-  });
+  })
+  .addCommand(
+    new Command('new')
+      .description('Generate a new account and store it in an encrypted keystore')
+      .argument('<name>', 'Account name')
+      .action(async (name) => {
+        try {
+          validateNewAccountName(name);
+
+          const password = await promptPassword('New keystore password:', true);
+          storeAccount(name, generatePrivateKey(), password);
+
+        } catch (error) {
+          logError(`Failed to create account: ${error instanceof Error ? error.message : error}`);
+          process.exit(1);
+        }
+      })
+  )
+  .addCommand(
+    new Command('import')
+      .description('Import a private key or an existing keystore file into an encrypted keystore')
+      .argument('<name>', 'Account name')
+      .option('-k, --private-key <key>', 'Private key to import (prompted if omitted)')
+      .option('--keystore <file>', 'Existing Web3 Secret Storage JSON file to import')
+      .action(async (name, options) => {
+        try {
+          validateNewAccountName(name);
+
+          if (options.privateKey && options.keystore) {
+            logError('Use either --private-key or --keystore, not both');
+            process.exit(1);
+          }
+
+          if (options.keystore) {
+            // Decrypting proves the password before the file is trusted
+            const keystore = readKeystoreFile(options.keystore);
+            const password = await promptPassword(`Password for ${options.keystore}:`);
+            const privateKey = decryptKeystore(keystore, password);
+            storeAccount(name, privateKey, password);
+            return;
+          }
+
+          const input: string = options.privateKey || await promptSecret('Private key:');
+          const privateKey = (input.startsWith('0x') ? input : `0x${input}`) as Hex;
+          if (!isHex(privateKey) || size(privateKey) !== 32) {
+            logError('Private key must be a 32-byte hex string');
+            process.exit(1);
+          }
+
+          if (options.privateKey) {
+            logWarning('Private keys passed as arguments end up in your shell history');
+          }
+
+          const password = await promptPassword('New keystore password:', true);
+          storeAccount(name, privateKey, password);
+
+        } catch (error) {
+          logError(`Failed to import account: ${error instanceof Error ? error.message : error}`);
+          process.exit(1);
+        }
+      })
+  )
+  .addCommand(
+    new Command('export')
+      .description('Export the encrypted keystore of an account')
+      .argument('<name>', 'Account name')
+      .option('-o, --output <file>', 'Write the keystore JSON to a file instead of stdout')
+      .option('--decrypt', 'Print the raw private key instead (requires the password)')
+      .option('-y, --yes', 'Skip confirmation prompts')
+      .action(async (name, options) => {
+        try {
+          const keystore = loadKeystoreAccount(name);
+          const address = getAddress(`0x${keystore.address}`);
+
+          if (!options.decrypt) {
+            const json = JSON.stringify(keystore, null, 2);
+            emitJson(keystore);
+
+            if (!options.output) {
+              console.log(json);
+              return;
+            }
+
+            writeFileSync(options.output, json + '\n', { encoding: 'utf8', mode: 0o600 });
+            logSuccess(`Keystore for ${address} written to ${options.output}`);
+            return;
+          }
+
+          if (!options.yes) {
+            const shouldExport = await confirmAction(`Print the raw private key of "${name}" to the terminal?`);
+            if (!shouldExport) {
+              logInfo('Export cancelled');
+              return;
+            }
+          }
+
+          const password = await promptPassword(`Password for account "${name}":`);
+          const privateKey = decryptKeystore(keystore, password);
+          emitJson({ name, address, privateKey });
+
+          console.log(`Address: ${chalk.green(address)}`);
+          console.log(`Private Key: ${privateKey}`);
+
+        } catch (error) {
+          logError(`Failed to export account: ${error instanceof Error ? error.message : error}`);
+          process.exit(1);
+        }
+      })
+  )
+  .addCommand(
+    new Command('list')
+      .description('List keystore accounts')
+      .action(async () => {
+        try {
+          const accounts = listKeystoreAccounts();
+          emitJson({ keystoreDir: config.getKeystoreDir(), accounts });
+
+          console.log(chalk.blue('Keystore Accounts:'));
+          console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+
+          if (accounts.length === 0) {
+            logInfo('No keystore accounts yet. Create one with: aon-cli accounts new <name>');
+            return;
+          }
+
+          console.log(table([
+            ['Name', 'Address'],
+            ...accounts.map((account) => [chalk.blue(account.name), chalk.green(account.address)]),
+          ]));
+          console.log(`Keystore directory: ${chalk.gray(config.getKeystoreDir())}`);
+
+        } catch (error) {
+          logError(`Failed to list accounts: ${error instanceof Error ? error.message : error}`);
+          process.exit(1);
+        }
+      })
+  )
+  .addCommand(
+    new Command('remove')
+      .description('Delete a keystore account')
+      .argument('<name>', 'Account name')
+      .option('-y, --yes', 'Skip confirmation prompts')
+      .action(async (name, options) => {
+        try {
+          const keystore = loadKeystoreAccount(name);
+          const address = getAddress(`0x${keystore.address}`);
+
+          if (!options.yes) {
+            logWarning('Funds are lost if this is the only copy of the key');
+            const shouldRemove = await confirmAction(`Delete account "${name}" (${formatAddress(address)})?`);
+            if (!shouldRemove) {
+              logInfo('Removal cancelled');
+              return;
+            }
+          }
+
+          removeKeystoreAccount(name);
+          emitJson({ name, address });
+          logSuccess(`Account "${name}" removed`);
+
+        } catch (error) {
+          logError(`Failed to remove account: ${error instanceof Error ? error.message : error}`);
+          process.exit(1);
+        }
+      })
+  );
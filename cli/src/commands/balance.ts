@@ -9,11 +9,12 @@ import {
   isValidEthereumAddress,
   formatAddress 
 } from '../lib/utils';
+import { emitJson, withWei } from '../lib/output';
 
 export const balanceCommand = new Command('balance')
   .description('Check RBTC balance of an address')
   .argument('<address>', 'Address to check balance for')
-  .option('-n, --network <network>', 'Network to use', 'local')
+  .option('-n, --network <network>', 'Network to use', config.getDefaultNetwork())
   .action(async (address, options) => {
     try {
       if (!isValidEthereumAddress(address)) {
@@ -29,11 +30,13 @@ export const balanceCommand = new Command('balance')
 
       spinner.stop();
 
+      const network = config.getNetwork(options.network, globalOptions.rpcUrl);
+      emitJson(withWei({ address, network: network.name, balance }, ['balance']));
+
       console.log(chalk.blue('Balance Information:'));
       console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
       console.log(`Address: ${chalk.green(address)}`);
       console.log(`Short: ${chalk.gray(formatAddress(address))}`);
-      const network = config.getNetwork(options.network, globalOptions.rpcUrl);
       console.log(`Network: ${chalk.blue(network.name)}`);
       console.log(`Balance: ${chalk.yellow(parseFloat(balance).toFixed(6))} RBTC`);
 
@@ -1,23 +1,40 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import { table } from 'table';
+import { formatEther, type ContractEventArgsFromTopics, type ContractEventName } from 'viem';
+import { aonAbi } from '../generated';
 import { ContractManager } from '../lib/contract';
+import { resolveSigner } from '../lib/signer';
+import { formatContractError } from '../lib/errors';
 import { config } from '../lib/config';
 import { 
   logSuccess, 
   logError, 
   logInfo, 
+  logWarning,
   createSpinner, 
-  getPrivateKeyFromEnv,
   formatAddress,
   formatTime,
   formatTimeRemaining,
+  formatDuration,
   formatCampaignStatus,
   parseTimeInput,
   validateEthAmount,
   isValidEthereumAddress,
-  confirmAction 
+  confirmAction,
+  getCampaignStatusName,
+  CAMPAIGN_STATUS_NAMES,
+  parseTransactionOptions
 } from '../lib/utils';
+import { reportDryRun } from '../lib/dryrun';
+import { writeUnsignedTransactions } from '../lib/offline';
+import { emitJson, emitJsonError, emitJsonLine, withWei } from '../lib/output';
+import { buildContributorLedger } from '../lib/ledger';
+import { getCampaignTimeline } from '../lib/lifecycle';
+import { CampaignEvent, CampaignInfo, CampaignStatus, CreatedCampaign, DeploymentMatch } from '../types';
+
+// Decoded arguments of an Aon event, as delivered by ContractManager.watchCampaignEvents
+type AonEventArgs<name extends ContractEventName<typeof aonAbi>> = ContractEventArgsFromTopics<typeof aonAbi, name>;
 
 export const campaignCommand = new Command('campaign')
   .description('Manage AON campaigns')
@@ -27,9 +44,21 @@ export const campaignCommand = new Command('campaign')
       .requiredOption('-c, --creator <address>', 'Creator address')
       .requiredOption('-g, --goal <amount>', 'Funding goal in RBTC (e.g., "10" or "10 ether")')
       .requiredOption('-d, --duration <duration>', 'Campaign duration (e.g., "30 days", "2 weeks")')
-      .option('-w, --claim-window <duration>', 'Claim/refund window duration', '7 days')
-      .option('-n, --network <network>', 'Network to use', 'local')
+      .option('-w, --claim-window <duration>', 'Claim window duration after the campaign ends', '7 days')
+      .option('-r, --refund-window <duration>', 'Refund window duration after the claim window', '7 days')
+      .option('-n, --network <network>', 'Network to use', config.getDefaultNetwork())
       .option('-k, --private-key <key>', 'Private key (or use PRIVATE_KEY env var)')
+      .option('--account <name>', 'Keystore account to sign with (see "aon-cli accounts list")')
+      .option('--account-index <n>', 'HD account index from the configured mnemonic (Anvil dev mnemonic on local)')
+      .option('--signer <spec>', 'External signer: rpc:<url> (remote JSON-RPC signer) or node (node-managed account)')
+      .option('--from <address>', 'Account of the external signer (defaults to its first account), or the sender with --unsigned')
+      .option('--gas-price <gwei>', 'Gas price in gwei (defaults to the node price, at least the block minimum gas price)')
+      .option('--gas-limit <gas>', 'Gas limit (defaults to an estimate)')
+      .option('--nonce <n>', 'Nonce of the first transaction (defaults to the next pending nonce)')
+      .option('--confirmations <n>', 'Confirmations to wait for', '1')
+      .option('--timeout <duration>', 'How long to wait for confirmation (e.g., "5m", "1 hour")', '5m')
+      .option('--unsigned <file>', 'Write the unsigned transaction to a file for offline signing (see "aon-cli tx sign")')
+      .option('--dry-run', 'Simulate the transaction and show the revert reason, gas, cost and balance changes without sending')
       .option('-y, --yes', 'Skip confirmation prompts')
       .action(async (options) => {
         try {
@@ -42,9 +71,23 @@ export const campaignCommand = new Command('campaign')
           const goal = validateEthAmount(options.goal);
           const duration = parseTimeInput(options.duration);
           const claimWindow = parseTimeInput(options.claimWindow);
+          const refundWindow = parseTimeInput(options.refundWindow);
+
+          // Aon.initialize rejects windows shorter than an hour and uint32 overflows
+          const MIN_PERIOD = 3600;
+          const MAX_UINT32 = 2 ** 32 - 1;
+          if (duration < MIN_PERIOD || claimWindow < MIN_PERIOD || refundWindow < MIN_PERIOD) {
+            logError('Duration, claim window and refund window must each be at least 1 hour');
+            process.exit(1);
+          }
+          if (duration > MAX_UINT32 || claimWindow > MAX_UINT32 || refundWindow > MAX_UINT32) {
+            logError('Duration, claim window and refund window must fit in a uint32 (seconds)');
+            process.exit(1);
+          }
 
-          const privateKey = options.privateKey || getPrivateKeyFromEnv();
-          if (!privateKey) {
+          const globalOptions = options.parent?.opts() || {};
+          const signer = await resolveSigner(options, globalOptions.rpcUrl);
+          if (!signer) {
             logError('Private key required for campaign creation');
             process.exit(1);
           }
@@ -56,8 +99,29 @@ export const campaignCommand = new Command('campaign')
           console.log(`Goal: ${chalk.green(goal)} RBTC`);
           console.log(`Duration: ${chalk.green(options.duration)}`);
           console.log(`Claim Window: ${chalk.green(options.claimWindow)}`);
+          console.log(`Refund Window: ${chalk.green(options.refundWindow)}`);
           console.log(`Network: ${chalk.green(config.getNetwork(options.network).name)}`);
 
+          const manager = new ContractManager(options.network, signer, globalOptions.rpcUrl, parseTransactionOptions(options));
+
+          if (options.dryRun) {
+            const dryRunSpinner = createSpinner('Simulating campaign creation...').start();
+            const dryRun = await manager.dryRunCreateCampaign(options.creator, goal, duration, claimWindow, refundWindow);
+            dryRunSpinner.stop();
+            reportDryRun(dryRun);
+            return;
+          }
+
+          if (options.unsigned) {
+            const unsignedSpinner = createSpinner('Building unsigned transaction...').start();
+            const unsigned = await manager.buildUnsignedTransactions('campaign create', [
+              manager.getCreateCampaignCall(options.creator, goal, duration, claimWindow, refundWindow),
+            ]);
+            unsignedSpinner.stop();
+            writeUnsignedTransactions(options.unsigned, unsigned);
+            return;
+          }
+
           if (!options.yes) {
             const shouldCreate = await confirmAction('\nCreate campaign?');
             if (!shouldCreate) {
@@ -68,23 +132,34 @@ export const campaignCommand = new Command('campaign')
 
           const spinner = createSpinner('Creating campaign...').start();
 
-          const globalOptions = options.parent?.opts() || {};
-          const manager = new ContractManager(options.network, privateKey, globalOptions.rpcUrl);
-          const campaignAddress = await manager.createCampaign(
+          const created = await manager.createCampaign(
             options.creator,
             goal,
             duration,
-            claimWindow
+            claimWindow,
+            refundWindow
           );
 
           spinner.stop();
 
+          emitJson(withWei({
+            address: created.address,
+            transactionHash: created.transactionHash,
+            blockNumber: created.blockNumber,
+            creator: options.creator,
+            goal,
+            duration,
+            claimWindow,
+            refundWindow,
+          }, ['goal']));
+
           logSuccess('Campaign created successfully!');
-          console.log(`Campaign Address: ${chalk.blue(campaignAddress)}`);
-          logInfo('You can now view details with: aon-cli campaign info ' + campaignAddress);
+          console.log(`Campaign Address: ${chalk.blue(created.address)}`);
+          console.log(`Transaction: ${chalk.blue(created.transactionHash)}`);
+          logInfo('You can now view details with: aon-cli campaign info ' + created.address);
 
         } catch (error) {
-          logError(`Failed to create campaign: ${error}`);
+          logError(`Failed to create campaign: ${formatContractError(error)}`);
           process.exit(1);
         }
       })
@@ -93,7 +168,7 @@ export const campaignCommand = new Command('campaign')
     new Command('info')
       .description('Get detailed information about a campaign')
       .argument('<address>', 'Campaign contract address')
-      .option('-n, --network <network>', 'Network to use', 'local')
+      .option('-n, --network <network>', 'Network to use', config.getDefaultNetwork())
       .action(async (address, options) => {
         try {
           if (!isValidEthereumAddress(address)) {
@@ -105,10 +180,16 @@ export const campaignCommand = new Command('campaign')
 
           const globalOptions = options.parent?.opts() || {};
           const manager = new ContractManager(options.network, undefined, globalOptions.rpcUrl);
-          const info = await manager.getCampaignInfo(address);
+          const [info, now] = await Promise.all([
+            manager.getCampaignInfo(address),
+            manager.getLatestBlockTimestamp(),
+          ]);
+          const timeline = getCampaignTimeline(info, now);
 
           spinner.stop();
 
+          emitJson({ ...withWei(info, ['goal', 'balance', 'totalCreatorFee', 'totalContributorFee']), timeline });
+
           console.log(chalk.blue('Campaign Information:'));
           console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
           console.log(`Address: ${chalk.green(info.address)}`);
@@ -124,34 +205,542 @@ export const campaignCommand = new Command('campaign')
             console.log(`Contributor Fees: ${chalk.cyan(info.totalContributorFee)} RBTC`);
           }
           
-          console.log('\nCampaign State:');
-          console.log(`  Goal Reached: ${info.goalReached ? chalk.green('Yes') : chalk.red('No')}`);
-          console.log(`  Successful: ${info.isSuccessful ? chalk.green('Yes') : chalk.red('No')}`);
-          console.log(`  Failed: ${info.isFailed ? chalk.red('Yes') : chalk.green('No')}`);
-          console.log(`  Unclaimed: ${info.isUnclaimed ? chalk.yellow('Yes') : chalk.green('No')}`);
+          console.log(`Goal Reached: ${info.goalReached ? chalk.green('Yes') : chalk.red('No')}`);
+
+          console.log('\nTimeline (block time):');
+          const next = timeline.milestones.find((milestone) => !milestone.passed);
+          for (const milestone of timeline.milestones) {
+            const marker = milestone.passed ? chalk.green('✓') : milestone === next ? chalk.yellow('→') : ' ';
+            const countdown = milestone.passed
+              ? chalk.gray(`${formatDuration(now - milestone.timestamp)} ago`)
+              : chalk.yellow(`in ${formatDuration(milestone.timestamp - now)}`);
+            console.log(`  ${marker} ${`${milestone.label}:`.padEnd(30)}${formatTime(milestone.timestamp)} (${countdown})`);
+          }
+
+          console.log(`\nCurrent Phase: ${formatCampaignStatus(info.status)}`);
+          console.log('Available Actions:');
+          const roles: [string, string[]][] = [
+            ['Creator', timeline.actions.creator],
+            ['Contributors', timeline.actions.contributors],
+            ['Factory Owner', timeline.actions.factoryOwner],
+          ];
+          for (const [role, actions] of roles) {
+            console.log(`  ${`${role}:`.padEnd(15)}${actions.length > 0 ? chalk.green(actions.join(', ')) : chalk.gray('none')}`);
+          }
 
         } catch (error) {
-          logError(`Failed to fetch campaign info: ${error}`);
+          logError(`Failed to fetch campaign info: ${formatContractError(error)}`);
+          process.exit(1);
+        }
+      })
+  )
+  .addCommand(
+    new Command('inspect')
+      .description('Check a campaign\'s implementation, factory, goal strategy and EIP-712 domain, and dump its raw state')
+      .argument('<address>', 'Campaign contract address')
+      .option('-n, --network <network>', 'Network to use', config.getDefaultNetwork())
+      .action(async (address, options) => {
+        try {
+          if (!isValidEthereumAddress(address)) {
+            logError('Invalid campaign address');
+            process.exit(1);
+          }
+
+          const spinner = createSpinner('Inspecting campaign...').start();
+
+          const globalOptions = options.parent?.opts() || {};
+          const manager = new ContractManager(options.network, undefined, globalOptions.rpcUrl);
+          const inspection = await manager.inspectCampaign(address);
+
+          spinner.stop();
+
+          const { checks, state } = inspection;
+          const mark = (ok: boolean) => (ok ? chalk.green('✓') : chalk.red('✗'));
+          const deploymentCheck = (match: DeploymentMatch) =>
+            match === 'match'
+              ? chalk.green('✓ configured deployment')
+              : match === 'previous'
+                ? chalk.yellow('⚠ earlier deployment (manifest)')
+                : chalk.red('✗ not a known deployment');
+          const unreadable = chalk.red('unreadable');
+          const contract = (address: string | undefined, match: DeploymentMatch) =>
+            address ? `${chalk.blue(address)} ${deploymentCheck(match)}` : `${unreadable} ${chalk.red('✗')}`;
+          const seconds = (value?: string) => (value === undefined ? unreadable : `${value} s (${formatDuration(Number(value))})`);
+          const wei = (value?: string) => (value === undefined ? unreadable : `${value} wei (${formatEther(BigInt(value))} RBTC)`);
+
+          console.log(chalk.blue('Campaign Inspection:'));
+          console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+          console.log(`Address: ${chalk.green(inspection.address)}`);
+          console.log(`Chain ID: ${inspection.chainId}`);
+          console.log(`Implementation: ${contract(inspection.implementation, checks.implementation)}`);
+          console.log(`Version: ${inspection.version === undefined ? chalk.gray('unknown') : `v${inspection.version}`}`);
+          console.log(`Factory: ${contract(inspection.factory, checks.factory)}`);
+          console.log(`Goal Strategy: ${contract(inspection.goalReachedStrategy, checks.goalReachedStrategy)}`);
+
+          console.log('\nEIP-712 Domain Separator:');
+          console.log(`  On-chain: ${inspection.domainSeparator.actual ?? unreadable} ${mark(checks.domainSeparator)}`);
+          if (!checks.domainSeparator) {
+            console.log(`  Expected: ${inspection.domainSeparator.expected} ("Aon", "1", chain ${inspection.chainId}, ${inspection.address})`);
+          }
+
+          console.log('\nRaw State:');
+          console.log(`  Claim Window:          ${seconds(state.claimWindow)}`);
+          console.log(`  Refund Window:         ${seconds(state.refundWindow)}`);
+          console.log(`  Total Creator Fee:     ${wei(state.totalCreatorFee)}`);
+          console.log(`  Total Contributor Fee: ${wei(state.totalContributorFee)}`);
+          console.log(`  Goal Balance:          ${wei(state.goalBalance)}`);
+          console.log(`  Claimable Balance:     ${wei(state.claimableBalance)}`);
+          console.log('');
+
+          if (inspection.unreadable.length > 0) {
+            logWarning(`Unreadable: ${inspection.unreadable.join(', ')} (the getters reverted or do not exist)`);
+          }
+          if (inspection.unreadable.some((field) => field === 'goalBalance' || field === 'claimableBalance')) {
+            logInfo('goalBalance and claimableBalance revert once a claim or swipe paid out the balance while fees are still recorded');
+          }
+
+          if (checks.implementation === 'unknown') {
+            logInfo('Campaigns created before "aon-cli factory upgrade" keep their implementation, compare with: aon-cli factory versions');
+          }
+          if (!checks.domainSeparator) {
+            logWarning('Signatures from "aon-cli sign" will not verify against this campaign');
+          }
+
+          if (!inspection.healthy) {
+            emitJsonError('Campaign failed the integrity check', inspection);
+            logError('Campaign failed the integrity check, it may come from another factory or implementation');
+            process.exit(1);
+          }
+
+          emitJson(inspection);
+          logSuccess('Campaign passed the integrity check');
+
+        } catch (error) {
+          logError(`Failed to inspect campaign: ${formatContractError(error)}`);
           process.exit(1);
         }
       })
   )
   .addCommand(
     new Command('list')
-      .description('List campaigns (requires event indexing - simplified version)')
-      .option('-n, --network <network>', 'Network to use', 'local')
+      .description('List campaigns created by the configured factory')
+      .option('-n, --network <network>', 'Network to use', config.getDefaultNetwork())
+      .option('--creator <address>', 'Only show campaigns created by this address')
+      .option('--status <status>', `Only show campaigns with this status (${CAMPAIGN_STATUS_NAMES.join('|')})`)
+      .option('--ending-within <duration>', 'Only show campaigns ending within this duration (e.g., "3d", "12 hours")')
+      .option('--sort <field>', 'Sort by created|end|goal|raised', 'created')
+      .option('--reverse', 'Reverse the sort order')
+      .option('--from-block <block>', 'Block to start scanning factory events from', '0')
+      .option('--chunk-size <blocks>', 'Number of blocks per log query', '2000')
       .action(async (options) => {
-        logInfo('Campaign listing requires event indexing which is not implemented in this CLI version.');
-        logInfo('To view a specific campaign, use: aon-cli campaign info <address>');
-        logInfo('You can find campaign addresses from deployment logs or block explorers.');
+        try {
+          if (options.creator && !isValidEthereumAddress(options.creator)) {
+            logError('Invalid creator address');
+            process.exit(1);
+          }
+
+          if (options.status && !CAMPAIGN_STATUS_NAMES.includes(options.status)) {
+            logError(`Invalid status. Supported: ${CAMPAIGN_STATUS_NAMES.join(', ')}`);
+            process.exit(1);
+          }
+
+          if (!['created', 'end', 'goal', 'raised'].includes(options.sort)) {
+            logError('Invalid sort field. Supported: created, end, goal, raised');
+            process.exit(1);
+          }
+
+          const endingWithin = options.endingWithin ? parseTimeInput(options.endingWithin) : undefined;
+
+          const globalOptions = options.parent?.opts() || {};
+          const manager = new ContractManager(options.network, undefined, globalOptions.rpcUrl);
+
+          const spinner = createSpinner('Scanning factory events...').start();
+
+          const created = await manager.getCreatedCampaigns(
+            BigInt(options.fromBlock),
+            BigInt(options.chunkSize),
+            (scannedBlock, latestBlock) => {
+              spinner.text = `Scanning factory events... (block ${scannedBlock}/${latestBlock})`;
+            }
+          );
+
+          // Hydrate in small batches to avoid hammering public nodes
+          const campaigns: { created: CreatedCampaign; info: CampaignInfo }[] = [];
+          for (let i = 0; i < created.length; i += 10) {
+            spinner.text = `Fetching campaign information... (${i}/${created.length})`;
+            const batch = created.slice(i, i + 10);
+            const infos = await Promise.all(batch.map((campaign) => manager.getCampaignInfo(campaign.address)));
+            infos.forEach((info, index) => campaigns.push({ created: batch[index], info }));
+          }
+
+          // Chain time, like the lifecycle timeline, so Anvil time warps are honoured
+          const now = await manager.getLatestBlockTimestamp();
+
+          spinner.stop();
+
+          const filtered = campaigns.filter(({ info }) => {
+            if (options.creator && info.creator.toLowerCase() !== options.creator.toLowerCase()) {
+              return false;
+            }
+            if (options.status && getCampaignStatusName(info) !== options.status) {
+              return false;
+            }
+            if (endingWithin !== undefined && (info.endTime < now || info.endTime > now + endingWithin)) {
+              return false;
+            }
+            return true;
+          });
+
+          const sortKeys: Record<string, (entry: { created: CreatedCampaign; info: CampaignInfo }) => number> = {
+            created: ({ created }) => created.blockNumber,
+            end: ({ info }) => info.endTime,
+            goal: ({ info }) => parseFloat(info.goal),
+            raised: ({ info }) => parseFloat(info.balance),
+          };
+          const sortKey = sortKeys[options.sort];
+          filtered.sort((a, b) => sortKey(a) - sortKey(b));
+          if (options.reverse) {
+            filtered.reverse();
+          }
+
+          emitJson({
+            total: created.length,
+            matched: filtered.length,
+            campaigns: filtered.map(({ created, info }) => ({
+              ...withWei(info, ['goal', 'balance', 'totalCreatorFee', 'totalContributorFee']),
+              blockNumber: created.blockNumber,
+              transactionHash: created.transactionHash,
+            })),
+          });
+
+          const network = config.getNetwork(options.network, globalOptions.rpcUrl);
+          console.log(chalk.blue(`Campaigns (${network.name}):`));
+          console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+
+          if (filtered.length === 0) {
+            logInfo('No campaigns match the given filters');
+            return;
+          }
+
+          const tableData = [
+            ['Address', 'Creator', 'Goal (RBTC)', 'Raised (RBTC)', 'Status', 'Ends'],
+            ...filtered.map(({ info }) => [
+              chalk.green(info.address),
+              formatAddress(info.creator),
+              info.goal,
+              info.balance,
+              formatCampaignStatus(info.status),
+              formatTime(info.endTime),
+            ]),
+          ];
+
+          console.log(table(tableData));
+          console.log(`Total campaigns: ${chalk.blue(filtered.length)} of ${created.length}`);
+
+        } catch (error) {
+          logError(`Failed to list campaigns: ${formatContractError(error)}`);
+          process.exit(1);
+        }
+      })
+  )
+  .addCommand(
+    new Command('contributors')
+      .description('Rebuild the contributor ledger of a campaign from its events')
+      .argument('<address>', 'Campaign contract address')
+      .option('-n, --network <network>', 'Network to use', config.getDefaultNetwork())
+      .option('--flagged', 'Only show contributors with mismatches or flags')
+      .option('--from-block <block>', 'Block to start scanning campaign events from', '0')
+      .option('--chunk-size <blocks>', 'Number of blocks per log query', '2000')
+      .action(async (address, options) => {
+        try {
+          if (!isValidEthereumAddress(address)) {
+            logError('Invalid campaign address');
+            process.exit(1);
+          }
+
+          const globalOptions = options.parent?.opts() || {};
+          const manager = new ContractManager(options.network, undefined, globalOptions.rpcUrl);
+
+          const spinner = createSpinner('Scanning campaign events...').start();
+
+          const events = await manager.getContributionEvents(
+            address,
+            BigInt(options.fromBlock),
+            BigInt(options.chunkSize),
+            (scannedBlock, latestBlock) => {
+              spinner.text = `Scanning campaign events... (block ${scannedBlock}/${latestBlock})`;
+            }
+          );
+
+          spinner.text = 'Cross-checking on-chain contributions...';
+          const contributors = [...new Set(events.map((event) => event.contributor.toLowerCase()))];
+          const onChain = await manager.getContributions(address, contributors);
+
+          spinner.stop();
+
+          const ledger = buildContributorLedger(events, onChain)
+            .sort((a, b) => parseFloat(b.contributed) - parseFloat(a.contributed));
+          const shown = options.flagged
+            ? ledger.filter((position) => position.mismatch || position.flags.length > 0)
+            : ledger;
+          const mismatches = ledger.filter((position) => position.mismatch).length;
+
+          emitJson({
+            campaign: address,
+            events: events.length,
+            mismatches,
+            contributors: shown.map((position) => withWei(position, ['contributed', 'refunded', 'processingFees', 'expected', 'onChain'])),
+          });
+
+          console.log(chalk.blue(`Contributors (${formatAddress(address)}):`));
+          console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+
+          if (shown.length === 0) {
+            logInfo(options.flagged ? 'No flagged contributors' : 'No contributions found');
+            return;
+          }
+
+          const tableData = [
+            ['Contributor', 'Contributed (RBTC)', 'Refunded (RBTC)', 'Fees (RBTC)', 'Replayed (RBTC)', 'On-chain (RBTC)', 'Flags'],
+            ...shown.map((position) => [
+              chalk.green(position.contributor),
+              position.contributed,
+              position.refunded,
+              position.processingFees,
+              position.expected,
+              position.mismatch ? chalk.red(position.onChain) : position.onChain,
+              position.flags.join('\n') || '-',
+            ]),
+          ];
+
+          console.log(table(tableData, {
+            columns: { 6: { width: 40, wrapWord: true } },
+          }));
+          console.log(`Contributors: ${chalk.blue(shown.length)} of ${ledger.length} (${events.length} events)`);
+
+          if (mismatches > 0) {
+            logWarning(`${mismatches} contributor(s) do not match their on-chain contribution`);
+          } else {
+            logSuccess('All replayed positions match their on-chain contributions');
+          }
+
+        } catch (error) {
+          logError(`Failed to rebuild contributor ledger: ${formatContractError(error)}`);
+          process.exit(1);
+        }
+      })
+  )
+  .addCommand(
+    new Command('watch')
+      .description('Stream campaign events and status transitions in real time')
+      .argument('[address]', 'Campaign contract address (defaults to every factory campaign)')
+      .option('-n, --network <network>', 'Network to use', config.getDefaultNetwork())
+      .option('--poll-interval <ms>', 'Polling interval in milliseconds (HTTP RPCs)', '4000')
+      .option('--from-block <block>', 'Block to start scanning factory events from', '0')
+      .option('--chunk-size <blocks>', 'Number of blocks per log query', '2000')
+      .action(async (address, options) => {
+        try {
+          if (address && !isValidEthereumAddress(address)) {
+            logError('Invalid campaign address');
+            process.exit(1);
+          }
+
+          const pollInterval = parseInt(options.pollInterval);
+          if (isNaN(pollInterval) || pollInterval <= 0) {
+            logError('Poll interval must be a positive number of milliseconds');
+            process.exit(1);
+          }
+
+          const globalOptions = options.parent?.opts() || {};
+          const manager = new ContractManager(options.network, undefined, globalOptions.rpcUrl);
+
+          const spinner = createSpinner('Loading campaigns...').start();
+
+          const addresses: string[] = address
+            ? [address]
+            : (await manager.getCreatedCampaigns(BigInt(options.fromBlock), BigInt(options.chunkSize))).map(
+                (campaign) => campaign.address
+              );
+
+          // Last known state per campaign, used to derive transitions between polls
+          const states = new Map<string, CampaignInfo>();
+          for (const campaign of addresses) {
+            states.set(campaign.toLowerCase(), await manager.getCampaignInfo(campaign));
+          }
+          let lastTimestamp = await manager.getLatestBlockTimestamp();
+
+          spinner.stop();
+
+          const network = config.getNetwork(options.network, globalOptions.rpcUrl);
+          console.log(chalk.blue(`Watching ${address ? formatAddress(address) : `${addresses.length} campaign(s)`} on ${network.name}`));
+          console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+          logInfo('Press Ctrl+C to stop');
+
+          const log = (campaign: string, message: string, data: Record<string, unknown>) => {
+            emitJsonLine({ timestamp: Math.floor(Date.now() / 1000), campaign, ...data });
+            const time = new Date().toLocaleTimeString();
+            console.log(`${chalk.gray(time)} ${chalk.green(formatAddress(campaign))} ${message}`);
+          };
+
+          const logProgress = async (campaign: string) => {
+            const { goalBalance, goal } = await manager.getGoalInfo(campaign);
+            emitJsonLine({ timestamp: Math.floor(Date.now() / 1000), campaign, type: 'progress', ...withWei({ goalBalance, goal }, ['goalBalance', 'goal']) });
+            const progress = ((parseFloat(goalBalance) / parseFloat(goal)) * 100).toFixed(2);
+            console.log(`${' '.repeat(22)}${chalk.gray('Progress:')} ${goalBalance} / ${goal} RBTC (${chalk.yellow(progress)}%)`);
+          };
+
+          const describeEvent = (event: CampaignEvent): string => {
+            switch (event.name) {
+              case 'ContributionReceived': {
+                const { amount, contributor } = event.args as AonEventArgs<'ContributionReceived'>;
+                return `${chalk.green('+')} ${formatEther(amount)} RBTC from ${formatAddress(contributor)}`;
+              }
+              case 'ContributionRefunded': {
+                const { amount, contributor } = event.args as AonEventArgs<'ContributionRefunded'>;
+                return `${chalk.red('-')} ${formatEther(amount)} RBTC refunded to ${formatAddress(contributor)}`;
+              }
+              case 'Claimed': {
+                const { creatorAmount, creatorFeeAmount, contributorFeeAmount } = event.args as AonEventArgs<'Claimed'>;
+                return `${chalk.green('Claimed')} ${formatEther(creatorAmount)} RBTC by creator, ` +
+                  `${formatEther(creatorFeeAmount + contributorFeeAmount)} RBTC in fees`;
+              }
+              case 'Cancelled':
+                return chalk.yellow('Cancelled');
+              case 'FundsSwiped': {
+                const { recipient, recipientAmount, feeRecipientAmount } = event.args as AonEventArgs<'FundsSwiped'>;
+                return `${chalk.magenta('Swiped')} ${formatEther(recipientAmount)} RBTC to ${formatAddress(recipient)}, ` +
+                  `${formatEther(feeRecipientAmount)} RBTC in fees`;
+              }
+              default:
+                return event.name;
+            }
+          };
+
+          // Serialize output so progress lines stay next to their event
+          let queue = Promise.resolve();
+          const onEvent = (event: CampaignEvent) => {
+            queue = queue.then(async () => {
+              log(event.campaign, describeEvent(event), {
+                type: 'event',
+                event: event.name,
+                args: event.args,
+                blockNumber: event.blockNumber,
+                transactionHash: event.transactionHash,
+              });
+              await logProgress(event.campaign);
+            }).catch((error) => logError(`Failed to process event: ${formatContractError(error)}`));
+          };
+          const onError = (error: Error) => logWarning(`Watch error: ${error.message.split('\n')[0]}`);
+
+          let unwatchCampaigns = addresses.length > 0
+            ? manager.watchCampaignEvents(addresses, onEvent, pollInterval, onError)
+            : () => {};
+
+          const unwatchFactory = address
+            ? () => {}
+            : manager.watchCreatedCampaigns((campaign) => {
+                queue = queue.then(async () => {
+                  addresses.push(campaign);
+                  states.set(campaign.toLowerCase(), await manager.getCampaignInfo(campaign));
+                  unwatchCampaigns();
+                  unwatchCampaigns = manager.watchCampaignEvents(addresses, onEvent, pollInterval, onError);
+                  log(campaign, chalk.blue('Campaign created'), { type: 'created' });
+                }).catch((error) => logError(`Failed to add campaign: ${formatContractError(error)}`));
+              }, pollInterval, onError);
+
+          const transitionMessages: Partial<Record<CampaignStatus, string>> = {
+            [CampaignStatus.Successful]: 'Goal reached',
+            [CampaignStatus.Failed]: 'Campaign ended without reaching its goal',
+            [CampaignStatus.Unclaimed]: 'Claim window closed without a claim',
+            [CampaignStatus.Finalized]: 'Campaign finalized',
+          };
+
+          const checkTransitions = async () => {
+            try {
+              const timestamp = await manager.getLatestBlockTimestamp();
+              for (const campaign of addresses) {
+                const previous = states.get(campaign.toLowerCase())!;
+                const current = await manager.getCampaignInfo(campaign);
+                states.set(campaign.toLowerCase(), current);
+
+                const claimWindowEnd = current.endTime + current.claimWindow;
+                const refundWindowEnd = claimWindowEnd + current.refundWindow;
+                if (lastTimestamp <= current.endTime && timestamp > current.endTime) {
+                  log(campaign, chalk.blue('Campaign ended'), { type: 'milestone', milestone: 'ended' });
+                }
+                if (lastTimestamp <= claimWindowEnd && timestamp > claimWindowEnd) {
+                  log(campaign, chalk.blue('Claim window closed'), { type: 'milestone', milestone: 'claimWindowClosed' });
+                }
+                if (lastTimestamp <= refundWindowEnd && timestamp > refundWindowEnd) {
+                  log(campaign, chalk.blue('Refund window closed, remaining funds can be swiped'), {
+                    type: 'milestone',
+                    milestone: 'refundWindowClosed',
+                  });
+                }
+
+                if (previous.status !== current.status) {
+                  const message = transitionMessages[current.status as CampaignStatus];
+                  log(
+                    campaign,
+                    `${formatCampaignStatus(previous.status)} → ${formatCampaignStatus(current.status)}${message ? ` (${message})` : ''}`,
+                    {
+                      type: 'transition',
+                      from: getCampaignStatusName(previous),
+                      to: getCampaignStatusName(current),
+                    }
+                  );
+                }
+              }
+              lastTimestamp = timestamp;
+            } catch (error) {
+              onError(error as Error);
+            }
+          };
+
+          // The next pass is scheduled once the current one is done, a slow pass must not pile up more
+          let timer: NodeJS.Timeout;
+          const scheduleCheck = () => {
+            timer = setTimeout(() => {
+              queue = queue.then(checkTransitions).then(scheduleCheck);
+            }, pollInterval);
+          };
+          scheduleCheck();
+
+          process.on('SIGINT', () => {
+            clearTimeout(timer);
+            unwatchCampaigns();
+            unwatchFactory();
+            console.log('');
+            logInfo('Stopped watching');
+            process.exit(0);
+          });
+
+          // Returning would close the RPC sockets (see closeRpcSockets), so stay until Ctrl+C
+          await new Promise(() => {});
+
+        } catch (error) {
+          logError(`Failed to watch campaigns: ${formatContractError(error)}`);
+          process.exit(1);
+        }
       })
   )
   .addCommand(
     new Command('cancel')
       .description('Cancel a campaign (creator or factory owner only)')
       .argument('<address>', 'Campaign contract address')
-      .option('-n, --network <network>', 'Network to use', 'local')
+      .option('-n, --network <network>', 'Network to use', config.getDefaultNetwork())
       .option('-k, --private-key <key>', 'Private key (or use PRIVATE_KEY env var)')
+      .option('--account <name>', 'Keystore account to sign with (see "aon-cli accounts list")')
+      .option('--account-index <n>', 'HD account index from the configured mnemonic (Anvil dev mnemonic on local)')
+      .option('--signer <spec>', 'External signer: rpc:<url> (remote JSON-RPC signer) or node (node-managed account)')
+      .option('--from <address>', 'Account of the external signer (defaults to its first account), or the sender with --unsigned')
+      .option('--gas-price <gwei>', 'Gas price in gwei (defaults to the node price, at least the block minimum gas price)')
+      .option('--gas-limit <gas>', 'Gas limit (defaults to an estimate)')
+      .option('--nonce <n>', 'Nonce of the first transaction (defaults to the next pending nonce)')
+      .option('--confirmations <n>', 'Confirmations to wait for', '1')
+      .option('--timeout <duration>', 'How long to wait for confirmation (e.g., "5m", "1 hour")', '5m')
+      .option('--unsigned <file>', 'Write the unsigned transaction to a file for offline signing (see "aon-cli tx sign")')
+      .option('--dry-run', 'Simulate the transaction and show the revert reason, gas, cost and balance changes without sending')
       .option('-y, --yes', 'Skip confirmation prompts')
       .action(async (address, options) => {
         try {
@@ -160,14 +749,14 @@ export const campaignCommand = new Command('campaign')
             process.exit(1);
           }
 
-          const privateKey = options.privateKey || getPrivateKeyFromEnv();
-          if (!privateKey) {
+          const globalOptions = options.parent?.opts() || {};
+          const signer = await resolveSigner(options, globalOptions.rpcUrl);
+          if (!signer) {
             logError('Private key required for campaign cancellation');
             process.exit(1);
           }
 
           // Get campaign info first
-          const globalOptions = options.parent?.opts() || {};
           const manager = new ContractManager(options.network, undefined, globalOptions.rpcUrl);
           const info = await manager.getCampaignInfo(address);
 
@@ -179,6 +768,24 @@ export const campaignCommand = new Command('campaign')
           console.log(`Raised: ${chalk.green(info.balance)} RBTC`);
           console.log(`Status: ${formatCampaignStatus(info.status)}`);
 
+          const managerWithSigner = new ContractManager(options.network, signer, globalOptions.rpcUrl, parseTransactionOptions(options));
+
+          if (options.dryRun) {
+            const dryRunSpinner = createSpinner('Simulating cancellation...').start();
+            const dryRun = await managerWithSigner.dryRunCancel(address);
+            dryRunSpinner.stop();
+            reportDryRun(dryRun);
+            return;
+          }
+
+          if (options.unsigned) {
+            const unsignedSpinner = createSpinner('Building unsigned transaction...').start();
+            const unsigned = await managerWithSigner.buildUnsignedTransactions('campaign cancel', [managerWithSigner.getCancelCall(address)]);
+            unsignedSpinner.stop();
+            writeUnsignedTransactions(options.unsigned, unsigned);
+            return;
+          }
+
           if (!options.yes) {
             const shouldCancel = await confirmAction('\nCancel this campaign?');
             if (!shouldCancel) {
@@ -189,16 +796,17 @@ export const campaignCommand = new Command('campaign')
 
           const spinner = createSpinner('Cancelling campaign...').start();
 
-          const managerWithSigner = new ContractManager(options.network, privateKey, globalOptions.rpcUrl);
           const txHash = await managerWithSigner.cancel(address);
 
           spinner.stop();
 
+          emitJson({ campaign: address, transactionHash: txHash });
+
           logSuccess('Campaign cancelled successfully!');
           console.log(`Transaction: ${chalk.blue(txHash)}`);
 
         } catch (error) {
-          logError(`Failed to cancel campaign: ${error}`);
+          logError(`Failed to cancel campaign: ${formatContractError(error)}`);
           process.exit(1);
         }
       })
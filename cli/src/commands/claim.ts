@@ -1,22 +1,242 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
+import { formatEther, isHex, parseEther, size, type Account } from 'viem';
 import { ContractManager } from '../lib/contract';
+import { resolveSigner } from '../lib/signer';
+import { config } from '../lib/config';
+import { formatContractError } from '../lib/errors';
+import { reportDryRun } from '../lib/dryrun';
+import { writeUnsignedTransactions } from '../lib/offline';
+import { emitJson, emitJsonError, withWei } from '../lib/output';
+import { DEFAULT_LOCK_FUNCTION_SIGNATURE, readSignatureBundle, recoverBundleSigner, validateSwapBundle } from '../lib/eip712';
+import { SignatureData, SwapContractLockParams } from '../types';
 import { 
   logSuccess, 
   logError, 
   logInfo, 
   createSpinner, 
-  getPrivateKeyFromEnv,
+  validateEthAmount,
   isValidEthereumAddress,
+  isZeroAddress,
+  parseTimeInput,
   confirmAction,
-  formatAddress 
+  formatAddress,
+  formatCampaignStatus,
+  parseTransactionOptions
 } from '../lib/utils';
 
+interface ClaimToSwapOptions {
+  toSwap: string | true;
+  swapContract?: string;
+  preimageHash?: string;
+  refundAddress?: string;
+  deadline: string;
+  claimAddress?: string;
+  timelock?: string;
+  lockFunction: string;
+  network: string;
+  gasPrice?: string;
+  gasLimit?: string;
+  nonce?: string;
+  confirmations?: string;
+  timeout?: string;
+  unsigned?: string;
+  dryRun?: boolean;
+  yes?: boolean;
+  parent?: { opts(): { rpcUrl?: string } };
+}
+
+async function claimToSwap(campaign: string, processingFee: string, sender: Account, options: ClaimToSwapOptions): Promise<void> {
+  const globalOptions = options.parent?.opts() || {};
+  const manager = new ContractManager(options.network, sender, globalOptions.rpcUrl, parseTransactionOptions(options));
+
+  let bundle: SignatureData;
+
+  if (typeof options.toSwap === 'string') {
+    // Relay a claim the creator signed elsewhere
+    bundle = readSignatureBundle(options.toSwap);
+
+    if (bundle.type !== 'claim') {
+      logError(`Expected a claim signature bundle, got: ${bundle.type}`);
+      process.exit(1);
+    }
+
+    if (bundle.campaign.toLowerCase() !== campaign.toLowerCase()) {
+      logError(`Signature bundle is for campaign ${bundle.campaign}`);
+      process.exit(1);
+    }
+  } else {
+    // Sign the claim with the creator key ourselves
+    if (options.unsigned) {
+      logError('--unsigned can only relay a signed claim, create one with "aon-cli sign claim" and pass it to --to-swap');
+      process.exit(1);
+    }
+
+    if (!options.swapContract || !isValidEthereumAddress(options.swapContract) || isZeroAddress(options.swapContract)) {
+      logError('A valid --swap-contract is required to sign the claim');
+      process.exit(1);
+    }
+
+    if (!options.refundAddress || !isValidEthereumAddress(options.refundAddress) || isZeroAddress(options.refundAddress)) {
+      logError('A valid --refund-address is required to sign the claim');
+      process.exit(1);
+    }
+
+    if (!options.preimageHash || !isHex(options.preimageHash) || size(options.preimageHash) !== 32) {
+      logError('Preimage hash must be a 0x-prefixed 32-byte hex string');
+      process.exit(1);
+    }
+
+    const signSpinner = createSpinner('Signing claim authorization...').start();
+    try {
+      bundle = await manager.signClaim(campaign, {
+        swapContract: options.swapContract,
+        deadline: Math.floor(Date.now() / 1000) + parseTimeInput(options.deadline),
+        processingFeeInEther: processingFee,
+        preimageHash: options.preimageHash,
+        refundAddress: options.refundAddress,
+      });
+      signSpinner.stop();
+    } catch (signError) {
+      signSpinner.stop();
+      logError(`Failed to sign claim: ${formatContractError(signError)}`);
+      process.exit(1);
+    }
+  }
+
+  if (!options.claimAddress || !isValidEthereumAddress(options.claimAddress)) {
+    logError('A valid --claim-address is required to lock funds in the swap contract');
+    process.exit(1);
+  }
+
+  if (!options.timelock || !/^\d+$/.test(options.timelock)) {
+    logError('A numeric --timelock is required to lock funds in the swap contract');
+    process.exit(1);
+  }
+
+  const lockParams: SwapContractLockParams = {
+    functionSignature: options.lockFunction,
+    preimageHash: bundle.preimageHash,
+    claimAddress: options.claimAddress,
+    refundAddress: bundle.refundAddress,
+    timelock: options.timelock,
+  };
+
+  const spinner = createSpinner('Checking signed claim...').start();
+  const [campaignInfo, state, signer] = await Promise.all([
+    manager.getCampaignInfo(campaign),
+    manager.getSwapAuthorizationState(bundle),
+    recoverBundleSigner(bundle),
+  ]);
+  spinner.stop();
+
+  // Both fees go to the fee recipient, the processing fee is added to the creator fee
+  const feeRecipientAmount =
+    parseEther(campaignInfo.totalCreatorFee) + parseEther(campaignInfo.totalContributorFee) + BigInt(bundle.processingFee);
+
+  console.log(chalk.blue('Swap Claim Details:'));
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+  console.log(`Campaign: ${chalk.green(formatAddress(campaign))}`);
+  console.log(`Creator: ${chalk.green(formatAddress(bundle.creator!))}`);
+  console.log(`Submitter: ${chalk.blue(formatAddress(manager.signer!.address))}`);
+  console.log(`Swap Contract: ${chalk.green(formatAddress(bundle.swapContract))}`);
+  console.log(`Raised: ${chalk.green(campaignInfo.balance)} RBTC`);
+  console.log(`Processing Fee: ${chalk.gray(formatEther(BigInt(bundle.processingFee)))} RBTC`);
+  console.log(`To Fee Recipient: ${chalk.gray(formatEther(feeRecipientAmount))} RBTC`);
+  console.log(`To Swap Contract: ${chalk.yellow(formatEther(BigInt(bundle.amount)))} RBTC`);
+  console.log(`Campaign Status: ${formatCampaignStatus(campaignInfo.status)}`);
+
+  const problems = validateSwapBundle(bundle, lockParams, state);
+  if (signer.toLowerCase() !== campaignInfo.creator.toLowerCase()) {
+    problems.push(`Signature was made by ${signer}, not the campaign creator`);
+  }
+
+  if (problems.length > 0) {
+    emitJsonError('Signed claim cannot be submitted', { problems });
+    logError('Signed claim cannot be submitted:');
+    problems.forEach((problem) => console.log(`  - ${problem}`));
+    process.exit(1);
+  }
+
+  if (options.dryRun) {
+    const dryRunSpinner = createSpinner('Simulating claim...').start();
+    const dryRun = await manager.dryRunClaimToSwapContract(bundle, lockParams);
+    dryRunSpinner.stop();
+    reportDryRun(dryRun);
+    return;
+  }
+
+  if (options.unsigned) {
+    const unsignedSpinner = createSpinner('Building unsigned transaction...').start();
+    const unsigned = await manager.buildUnsignedTransactions('claim', [manager.getClaimToSwapContractCall(bundle, lockParams)]);
+    unsignedSpinner.stop();
+    writeUnsignedTransactions(options.unsigned, unsigned);
+    return;
+  }
+
+  if (!options.yes) {
+    const shouldClaim = await confirmAction('\nSubmit claim to swap contract?');
+    if (!shouldClaim) {
+      logInfo('Claim cancelled');
+      return;
+    }
+  }
+
+  const claimSpinner = createSpinner('Submitting claim to swap contract...').start();
+
+  try {
+    const result = await manager.claimToSwapContract(bundle, lockParams);
+    claimSpinner.stop();
+
+    const feeAmount = parseEther(result.creatorFeeAmount) + parseEther(result.contributorFeeAmount);
+    emitJson({
+      campaign,
+      creator: bundle.creator,
+      swapContract: bundle.swapContract,
+      transactionHash: result.hash,
+      ...withWei(
+        { ...result, feeRecipientAmount: formatEther(feeAmount) },
+        ['swapAmount', 'creatorFeeAmount', 'contributorFeeAmount', 'feeRecipientAmount']
+      ),
+    });
+
+    logSuccess('Funds claimed to swap contract successfully!');
+    console.log(`Transaction: ${chalk.blue(result.hash)}`);
+    console.log(`Sent to Fee Recipient: ${chalk.gray(formatEther(feeAmount))} RBTC`);
+    console.log(`Locked in Swap Contract: ${chalk.green(result.swapAmount)} RBTC`);
+
+  } catch (claimError) {
+    claimSpinner.stop();
+    logError(`Claim failed: ${formatContractError(claimError)}`);
+    process.exit(1);
+  }
+}
+
 export const claimCommand = new Command('claim')
   .description('Claim funds from a successful AON campaign (creator only)')
   .argument('<campaign>', 'Campaign contract address')
-  .option('-n, --network <network>', 'Network to use', 'local')
+  .option('-p, --processing-fee <amount>', 'Processing fee in RBTC added to the creator fee (optional)', '0')
+  .option('--to-swap [bundle]', 'Claim to a swap contract, relaying a signed claim bundle or signing one with the creator key')
+  .option('-s, --swap-contract <address>', 'Swap contract receiving the funds (with --to-swap, when signing)')
+  .option('--preimage-hash <hash>', 'Swap preimage hash (with --to-swap, when signing)')
+  .option('--refund-address <address>', 'Swap refund address (with --to-swap, when signing)')
+  .option('-d, --deadline <duration>', 'Signature validity from now (with --to-swap, when signing)', '1 hour')
+  .option('--claim-address <address>', 'Swap claim address (with --to-swap)')
+  .option('--timelock <value>', 'Swap timelock (with --to-swap)')
+  .option('--lock-function <signature>', 'Swap contract lock function (with --to-swap)', DEFAULT_LOCK_FUNCTION_SIGNATURE)
+  .option('-n, --network <network>', 'Network to use', config.getDefaultNetwork())
   .option('-k, --private-key <key>', 'Private key (or use PRIVATE_KEY env var)')
+  .option('--account <name>', 'Keystore account to sign with (see "aon-cli accounts list")')
+  .option('--account-index <n>', 'HD account index from the configured mnemonic (Anvil dev mnemonic on local)')
+  .option('--signer <spec>', 'External signer: rpc:<url> (remote JSON-RPC signer) or node (node-managed account)')
+  .option('--from <address>', 'Account of the external signer (defaults to its first account), or the sender with --unsigned')
+  .option('--gas-price <gwei>', 'Gas price in gwei (defaults to the node price, at least the block minimum gas price)')
+  .option('--gas-limit <gas>', 'Gas limit (defaults to an estimate)')
+  .option('--nonce <n>', 'Nonce of the first transaction (defaults to the next pending nonce)')
+  .option('--confirmations <n>', 'Confirmations to wait for', '1')
+  .option('--timeout <duration>', 'How long to wait for confirmation (e.g., "5m", "1 hour")', '5m')
+  .option('--unsigned <file>', 'Write the unsigned transaction to a file for offline signing (see "aon-cli tx sign")')
+  .option('--dry-run', 'Simulate the transaction and show the revert reason, gas, cost and balance changes without sending')
   .option('-y, --yes', 'Skip confirmation prompts')
   .action(async (campaign, options) => {
     try {
@@ -26,13 +246,21 @@ export const claimCommand = new Command('claim')
         process.exit(1);
       }
 
-      const privateKey = options.privateKey || getPrivateKeyFromEnv();
-      if (!privateKey) {
+      const processingFee = validateEthAmount(options.processingFee, true); // Allow zero for processing fees
+
+      const globalOptions = options.parent?.opts() || {};
+      const signer = await resolveSigner(options, globalOptions.rpcUrl);
+      if (!signer) {
         logError('Private key required for claiming');
         process.exit(1);
       }
 
-      const manager = new ContractManager(options.network, privateKey);
+      if (options.toSwap) {
+        await claimToSwap(campaign, processingFee, signer, options);
+        return;
+      }
+
+      const manager = new ContractManager(options.network, signer, globalOptions.rpcUrl, parseTransactionOptions(options));
       const claimer = manager.signer?.address;
 
       if (!claimer) {
@@ -50,6 +278,11 @@ export const claimCommand = new Command('claim')
         ]);
         spinner.stop();
 
+        // The processing fee is added to the creator fee, so it comes out of the creator's share
+        const netAmount = claimInfo.canClaim
+          ? formatEther(parseEther(claimInfo.creatorAmount) - parseEther(processingFee))
+          : claimInfo.creatorAmount;
+
         // Display claim details
         console.log(chalk.blue('Claim Details:'));
         console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
@@ -58,10 +291,11 @@ export const claimCommand = new Command('claim')
         console.log(`Claimer: ${chalk.blue(formatAddress(claimer))}`);
         console.log(`Goal: ${chalk.green(campaignInfo.goal)} RBTC`);
         console.log(`Raised: ${chalk.green(campaignInfo.balance)} RBTC`);
-        console.log(`Net Amount: ${chalk.yellow(claimInfo.creatorAmount)} RBTC`);
-        console.log(`Campaign Status: ${campaignInfo.status === 0 ? chalk.blue('Active') : 
-                                        campaignInfo.status === 1 ? chalk.yellow('Cancelled') : 
-                                        chalk.green('Claimed')}`);
+        if (parseFloat(processingFee) > 0) {
+          console.log(`Processing Fee: ${chalk.gray(processingFee)} RBTC`);
+        }
+        console.log(`Net Amount: ${chalk.yellow(netAmount)} RBTC`);
+        console.log(`Campaign Status: ${formatCampaignStatus(campaignInfo.status)}`);
 
         // Check if claim is possible using contract validation
         if (!claimInfo.canClaim) {
@@ -69,6 +303,27 @@ export const claimCommand = new Command('claim')
           process.exit(1);
         }
 
+        if (parseEther(netAmount) < 0n) {
+          logError('Processing fee cannot exceed the claimable amount');
+          process.exit(1);
+        }
+
+        if (options.dryRun) {
+          const dryRunSpinner = createSpinner('Simulating claim...').start();
+          const dryRun = await manager.dryRunClaim(campaign, processingFee);
+          dryRunSpinner.stop();
+          reportDryRun(dryRun);
+          return;
+        }
+
+        if (options.unsigned) {
+          const unsignedSpinner = createSpinner('Building unsigned transaction...').start();
+          const unsigned = await manager.buildUnsignedTransactions('claim', [manager.getClaimCall(campaign, processingFee)]);
+          unsignedSpinner.stop();
+          writeUnsignedTransactions(options.unsigned, unsigned);
+          return;
+        }
+
         if (!options.yes) {
           const shouldClaim = await confirmAction('\nProceed with claim?');
           if (!shouldClaim) {
@@ -80,40 +335,34 @@ export const claimCommand = new Command('claim')
         const claimSpinner = createSpinner('Processing claim...').start();
 
         try {
-          const txHash = await manager.claim(campaign);
+          const txHash = await manager.claim(campaign, processingFee);
           claimSpinner.stop();
+          emitJson(withWei({
+            campaign,
+            claimer,
+            transactionHash: txHash,
+            amount: netAmount,
+            processingFee,
+          }, ['amount', 'processingFee']));
 
           logSuccess('Funds claimed successfully!');
           console.log(`Transaction: ${chalk.blue(txHash)}`);
-          console.log(`Amount Claimed: ${chalk.green(claimInfo.creatorAmount)} RBTC`);
+          console.log(`Amount Claimed: ${chalk.green(netAmount)} RBTC`);
 
         } catch (claimError) {
           claimSpinner.stop();
-          
-          if (claimError instanceof Error) {
-            if (claimError.message.includes('execution reverted')) {
-              logError('Claim rejected by contract');
-              logInfo('Campaign state may have changed since last check');
-            } else if (claimError.message.includes('insufficient funds')) {
-              logError('Contract has insufficient funds');
-            } else {
-              logError(`Claim failed: ${claimError.message}`);
-            }
-          } else {
-            logError(`Claim failed: ${claimError}`);
-          }
-          
+          logError(`Claim failed: ${formatContractError(claimError)}`);
           process.exit(1);
         }
 
       } catch (infoError) {
         spinner.stop();
-        logError(`Failed to check claim eligibility: ${infoError}`);
+        logError(`Failed to check claim eligibility: ${formatContractError(infoError)}`);
         process.exit(1);
       }
 
     } catch (error) {
-      logError(`Claim error: ${error}`);
+      logError(`Claim error: ${formatContractError(error)}`);
       process.exit(1);
     }
   });
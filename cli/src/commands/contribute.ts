@@ -1,27 +1,252 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
+import { table } from 'table';
+import { formatEther, parseEther, type Hash } from 'viem';
 import { ContractManager } from '../lib/contract';
+import { resolveSigner } from '../lib/signer';
+import { formatContractError } from '../lib/errors';
 import { config } from '../lib/config';
+import {
+  isSameContribution,
+  readContributionBatch,
+  readContributionBatchResults,
+  validateContributionRow,
+  writeContributionBatchResults
+} from '../lib/batch';
+import { reportDryRun } from '../lib/dryrun';
+import { writeUnsignedTransactions } from '../lib/offline';
+import { emitJson, emitJsonError, withWei } from '../lib/output';
+import { CampaignStatus, ContributionBatchResult, ContributionBatchRow } from '../types';
 import { 
   logSuccess, 
   logError, 
   logInfo, 
   createSpinner, 
-  getPrivateKeyFromEnv,
   validateEthAmount,
   isValidEthereumAddress,
   confirmAction,
-  formatAddress 
+  formatAddress,
+  formatCampaignStatus,
+  getCampaignStatusName,
+  parseTransactionOptions,
+  withParentOptions
 } from '../lib/utils';
 
+const batchCommand = new Command('batch')
+  .description('Contribute on behalf of others with contributeFor, one transaction per CSV row (e.g. for fiat on-ramps)')
+  .argument('<file>', 'CSV with campaign,contributor,amount,creatorFee,contributorFee rows, amounts in RBTC')
+  .option('-o, --output <file>', 'Results CSV, rerunning with it resumes the batch (defaults to <name>.results.csv next to the input)')
+  .option('--skip-invalid', 'Send the valid rows even if other rows fail validation')
+  .option('-n, --network <network>', 'Network to use', config.getDefaultNetwork())
+  .option('-k, --private-key <key>', 'Private key of the paying account (or use PRIVATE_KEY env var)')
+  .option('--account <name>', 'Keystore account to sign with (see "aon-cli accounts list")')
+  .option('--account-index <n>', 'HD account index from the configured mnemonic (Anvil dev mnemonic on local)')
+  .option('--signer <spec>', 'External signer: rpc:<url> (remote JSON-RPC signer) or node (node-managed account)')
+  .option('--from <address>', 'Account of the external signer (defaults to its first account)')
+  .option('--gas-price <gwei>', 'Gas price in gwei (defaults to the node price, at least the block minimum gas price)')
+  .option('--gas-limit <gas>', 'Gas limit (defaults to an estimate)')
+  .option('--nonce <n>', 'Nonce of the first transaction (defaults to the next pending nonce)')
+  .option('--confirmations <n>', 'Confirmations to wait for', '1')
+  .option('--timeout <duration>', 'How long to wait for each confirmation (e.g., "5m", "1 hour")', '5m')
+  .option('-y, --yes', 'Skip confirmation prompts')
+  .action(async (file, commandOptions, command) => {
+    try {
+      const options = withParentOptions(commandOptions, command);
+      const rows = readContributionBatch(file);
+      const output: string = options.output || `${file.replace(/\.csv$/i, '')}.results.csv`;
+      const previous = readContributionBatchResults(output);
+
+      const globalOptions = options.parent?.parent?.opts() || {};
+      const signer = await resolveSigner(options, globalOptions.rpcUrl);
+      if (!signer) {
+        logError('Private key required for contributions');
+        process.exit(1);
+      }
+
+      const manager = new ContractManager(options.network, signer, globalOptions.rpcUrl, parseTransactionOptions(options));
+      const sender = manager.signer!.address;
+
+      const results = new Map<number, ContributionBatchResult>();
+      const save = () => writeContributionBatchResults(output, rows.flatMap((row) => results.get(row.row) ?? []));
+
+      const spinner = createSpinner('Validating rows...').start();
+      const now = await manager.getLatestBlockTimestamp();
+
+      // Same rules as a single contribution, checked once per campaign against the block time
+      const campaignChecks = new Map<string, Promise<string | undefined>>();
+      const checkCampaign = (campaign: string) => {
+        const key = campaign.toLowerCase();
+        if (!campaignChecks.has(key)) {
+          campaignChecks.set(key, manager.getCampaignInfo(campaign).then(
+            (info) => {
+              if (info.status !== CampaignStatus.Active && info.status !== CampaignStatus.Successful) {
+                return `Campaign is ${getCampaignStatusName(info)}, contributions are closed`;
+              }
+              return now > info.endTime ? 'Campaign has ended, contributions are closed' : undefined;
+            },
+            (error) => `Not a readable AON campaign: ${formatContractError(error)}`
+          ));
+        }
+        return campaignChecks.get(key)!;
+      };
+
+      const queue: ContributionBatchRow[] = [];
+      for (const row of rows) {
+        spinner.text = `Validating rows... (${row.row}/${rows[rows.length - 1].row})`;
+
+        const earlier = previous.get(row.row);
+        if (earlier && !isSameContribution(earlier, row)) {
+          spinner.stop();
+          logError(`Line ${row.row} of ${file} differs from ${output}, pass another --output for a new batch`);
+          process.exit(1);
+        }
+
+        // Resume: sent rows are done, pending ones once their receipt confirms them
+        if (earlier?.status === 'sent') {
+          results.set(row.row, earlier);
+          continue;
+        }
+        if (earlier?.status === 'pending' && earlier.transactionHash) {
+          const receipt = await manager.recoverTransaction(earlier.transactionHash as Hash);
+          if (receipt) {
+            results.set(row.row, { ...row, status: 'sent', transactionHash: receipt.transactionHash });
+            continue;
+          }
+        }
+
+        const error = validateContributionRow(row) ?? await checkCampaign(row.campaign);
+        if (error) {
+          results.set(row.row, { ...row, status: 'invalid', error });
+        } else {
+          queue.push(row);
+        }
+      }
+
+      spinner.stop();
+      save();
+
+      const invalid = [...results.values()].filter((result) => result.status === 'invalid');
+      const alreadySent = [...results.values()].filter((result) => result.status === 'sent');
+      const total = queue.reduce((sum, row) => sum + parseEther(row.amount), 0n);
+
+      console.log(chalk.blue('Contribution Batch:'));
+      console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+      console.log(`File: ${chalk.green(file)} (${rows.length} rows)`);
+      console.log(`Results: ${chalk.green(output)}`);
+      console.log(`Sender: ${chalk.blue(sender)}`);
+      if (alreadySent.length > 0) {
+        console.log(`Already Sent: ${chalk.gray(alreadySent.length)} (resumed from ${output})`);
+      }
+      console.log(`To Send: ${chalk.yellow(queue.length)}`);
+      console.log(`Total: ${chalk.yellow(formatEther(total))} RBTC`);
+
+      if (invalid.length > 0) {
+        console.log(chalk.red(`\nInvalid Rows (${invalid.length}):`));
+        console.log(table([
+          ['Line', 'Campaign', 'Contributor', 'Amount', 'Error'],
+          ...invalid.map((result) => [result.row, result.campaign, result.contributor, result.amount, result.error ?? '']),
+        ]));
+
+        if (!options.skipInvalid) {
+          logError('Fix the invalid rows or pass --skip-invalid to send the others');
+          process.exit(1);
+        }
+      }
+
+      if (queue.length === 0) {
+        emitJson({ file, output, results: [...results.values()] });
+        logInfo('Nothing to send');
+        return;
+      }
+
+      const balance = parseEther(await manager.getBalance(sender));
+      if (balance < total) {
+        logError(`Insufficient balance: ${formatEther(balance)} RBTC for ${formatEther(total)} RBTC of contributions plus gas`);
+        process.exit(1);
+      }
+
+      if (!options.yes) {
+        const shouldSend = await confirmAction(`\nSend ${queue.length} contribution(s)?`);
+        if (!shouldSend) {
+          logInfo('Batch cancelled');
+          return;
+        }
+      }
+
+      // Sequential, every contribution is confirmed before the next nonce is used
+      const sendSpinner = createSpinner('Sending contributions...').start();
+      for (const [index, row] of queue.entries()) {
+        sendSpinner.text = `Sending contributions... (line ${row.row}, ${index + 1}/${queue.length})`;
+        let submitted: Hash | undefined;
+
+        try {
+          const txHash = await manager.contributeFor(row.campaign, row.contributor, row.amount, row.creatorFee, row.contributorFee, (hash) => {
+            submitted = hash;
+            results.set(row.row, { ...row, status: 'pending', transactionHash: hash });
+            save();
+          });
+          results.set(row.row, { ...row, status: 'sent', transactionHash: txHash });
+        } catch (contributionError) {
+          // A submitted transaction may still confirm, the next run checks its receipt before resending
+          results.set(row.row, {
+            ...row,
+            status: submitted ? 'pending' : 'failed',
+            transactionHash: submitted,
+            error: formatContractError(contributionError),
+          });
+        }
+        save();
+      }
+      sendSpinner.stop();
+
+      const finalResults = rows.flatMap((row) => results.get(row.row) ?? []);
+      const sent = finalResults.filter((result) => result.status === 'sent');
+      const unfinished = finalResults.filter((result) => result.status === 'failed' || result.status === 'pending');
+
+      console.log(table([
+        ['Line', 'Contributor', 'Amount', 'Status', 'Transaction / Error'],
+        ...queue.map((row) => {
+          const result = results.get(row.row)!;
+          const status = result.status === 'sent' ? chalk.green('sent') : result.status === 'pending' ? chalk.yellow('pending') : chalk.red('failed');
+          return [row.row, formatAddress(row.contributor), row.amount, status, result.error ?? result.transactionHash ?? ''];
+        }),
+      ]));
+
+      if (unfinished.length > 0) {
+        emitJsonError(`${unfinished.length} contribution(s) failed or are unconfirmed`, { file, output, results: finalResults });
+        logError(`${unfinished.length} contribution(s) failed or are unconfirmed, see ${output}`);
+        logInfo(`Rerun the same command to retry them, sent rows are skipped: aon-cli contribute batch ${file}${options.output ? ` --output ${output}` : ''}`);
+        process.exit(1);
+      }
+
+      emitJson({ file, output, results: finalResults });
+      logSuccess(`${sent.length} contribution(s) sent, results written to ${output}`);
+
+    } catch (error) {
+      logError(`Batch contribution error: ${formatContractError(error)}`);
+      process.exit(1);
+    }
+  });
+
 export const contributeCommand = new Command('contribute')
   .description('Contribute to an AON campaign')
   .argument('<campaign>', 'Campaign contract address')
-  .requiredOption('-a, --amount <amount>', 'Amount to contribute in RBTC')
+  .option('-a, --amount <amount>', 'Amount to contribute in RBTC (required)')
   .option('-c, --creator-fee <amount>', 'Creator fee in RBTC', '0')
   .option('-f, --contributor-fee <amount>', 'Contributor fee in RBTC (optional)', '0')
-  .option('-n, --network <network>', 'Network to use', 'local')
+  .option('-n, --network <network>', 'Network to use', config.getDefaultNetwork())
   .option('-k, --private-key <key>', 'Private key (or use PRIVATE_KEY env var)')
+  .option('--account <name>', 'Keystore account to sign with (see "aon-cli accounts list")')
+  .option('--account-index <n>', 'HD account index from the configured mnemonic (Anvil dev mnemonic on local)')
+  .option('--signer <spec>', 'External signer: rpc:<url> (remote JSON-RPC signer) or node (node-managed account)')
+  .option('--from <address>', 'Account of the external signer (defaults to its first account), or the sender with --unsigned')
+  .option('--gas-price <gwei>', 'Gas price in gwei (defaults to the node price, at least the block minimum gas price)')
+  .option('--gas-limit <gas>', 'Gas limit (defaults to an estimate)')
+  .option('--nonce <n>', 'Nonce of the first transaction (defaults to the next pending nonce)')
+  .option('--confirmations <n>', 'Confirmations to wait for', '1')
+  .option('--timeout <duration>', 'How long to wait for confirmation (e.g., "5m", "1 hour")', '5m')
+  .option('--unsigned <file>', 'Write the unsigned transaction to a file for offline signing (see "aon-cli tx sign")')
+  .option('--dry-run', 'Simulate the transaction and show the revert reason, gas, cost and balance changes without sending')
   .option('-y, --yes', 'Skip confirmation prompts')
   .action(async (campaign, options) => {
     try {
@@ -31,18 +256,24 @@ export const contributeCommand = new Command('contribute')
         process.exit(1);
       }
 
+      // Not a required option, commander would demand it from the subcommands too
+      if (options.amount === undefined) {
+        logError('Contribution amount required, pass --amount');
+        process.exit(1);
+      }
+
       const amount = validateEthAmount(options.amount);
       const creatorFee = validateEthAmount(options.creatorFee, true); // Allow zero for fees
       const contributorFee = validateEthAmount(options.contributorFee, true); // Allow zero for contributor fees
 
-      const privateKey = options.privateKey || getPrivateKeyFromEnv();
-      if (!privateKey) {
+      const globalOptions = options.parent?.opts() || {};
+      const signer = await resolveSigner(options, globalOptions.rpcUrl);
+      if (!signer) {
         logError('Private key required for contribution');
         process.exit(1);
       }
 
-      const globalOptions = options.parent?.opts() || {};
-      const manager = new ContractManager(options.network, privateKey, globalOptions.rpcUrl);
+      const manager = new ContractManager(options.network, signer, globalOptions.rpcUrl, parseTransactionOptions(options));
       const contributor = manager.signer?.address;
 
       // Get campaign info
@@ -66,8 +297,8 @@ export const contributeCommand = new Command('contribute')
       console.log(`Contributor: ${chalk.blue(formatAddress(contributor || 'Unknown'))}`);
 
       // Check campaign status
-      if (info.status !== 0) {
-        logError(`Cannot contribute to campaign with status: ${info.status === 1 ? 'Cancelled' : 'Claimed'}`);
+      if (info.status !== CampaignStatus.Active && info.status !== CampaignStatus.Successful) {
+        logError(`Cannot contribute to campaign with status: ${formatCampaignStatus(info.status)}`);
         process.exit(1);
       }
 
@@ -77,6 +308,22 @@ export const contributeCommand = new Command('contribute')
         process.exit(1);
       }
 
+      if (options.dryRun) {
+        const dryRunSpinner = createSpinner('Simulating contribution...').start();
+        const dryRun = await manager.dryRunContribute(campaign, amount, creatorFee, contributorFee);
+        dryRunSpinner.stop();
+        reportDryRun(dryRun);
+        return;
+      }
+
+      if (options.unsigned) {
+        const unsignedSpinner = createSpinner('Building unsigned transaction...').start();
+        const unsigned = await manager.buildUnsignedTransactions('contribute', [manager.getContributeCall(campaign, amount, creatorFee, contributorFee)]);
+        unsignedSpinner.stop();
+        writeUnsignedTransactions(options.unsigned, unsigned);
+        return;
+      }
+
       if (!options.yes) {
         const shouldContribute = await confirmAction('\nProceed with contribution?');
         if (!shouldContribute) {
@@ -90,6 +337,14 @@ export const contributeCommand = new Command('contribute')
       try {
         const txHash = await manager.contribute(campaign, amount, creatorFee, contributorFee);
         contributionSpinner.stop();
+        emitJson(withWei({
+          campaign,
+          contributor,
+          transactionHash: txHash,
+          amount,
+          creatorFee,
+          contributorFee,
+        }, ['amount', 'creatorFee', 'contributorFee']));
 
         logSuccess('Contribution sent successfully!');
         console.log(`Transaction: ${chalk.blue(txHash)}`);
@@ -103,29 +358,12 @@ export const contributeCommand = new Command('contribute')
 
       } catch (contributionError) {
         contributionSpinner.stop();
-        
-        if (contributionError instanceof Error) {
-          if (contributionError.message.includes('insufficient funds')) {
-            logError('Insufficient funds for contribution');
-            logInfo('Ensure your account has enough RBTC for the contribution amount plus gas fees');
-          } else if (contributionError.message.includes('execution reverted')) {
-            logError('Contribution rejected by contract');
-            logInfo('Check campaign status and contribution amount');
-          } else if (contributionError.message.includes('ContributorFeeCannotExceedContributionAmount')) {
-            logError('Contributor fee cannot exceed or equal contribution amount');
-            logInfo('Contributor fee must be less than the contribution amount');
-          } else {
-            logError(`Contribution failed: ${contributionError.message}`);
-          }
-        } else {
-          logError(`Contribution failed: ${contributionError}`);
-        }
-        
+        logError(`Contribution failed: ${formatContractError(contributionError)}`);
         process.exit(1);
       }
 
     } catch (error) {
-      logError(`Contribution error: ${error}`);
+      logError(`Contribution error: ${formatContractError(error)}`);
       process.exit(1);
     }
   })
@@ -134,9 +372,10 @@ export const contributeCommand = new Command('contribute')
       .description('Get contribution information for an address')
       .argument('<campaign>', 'Campaign contract address')
       .argument('<contributor>', 'Contributor address')
-      .option('-n, --network <network>', 'Network to use', 'local')
-      .action(async (campaign, contributor, options) => {
+      .option('-n, --network <network>', 'Network to use', config.getDefaultNetwork())
+      .action(async (campaign, contributor, commandOptions, command) => {
         try {
+          const options = withParentOptions(commandOptions, command);
           if (!isValidEthereumAddress(campaign)) {
             logError('Invalid campaign address');
             process.exit(1);
@@ -157,6 +396,10 @@ export const contributeCommand = new Command('contribute')
           ]);
 
           spinner.stop();
+          emitJson({
+            campaign: withWei(campaignInfo, ['goal', 'balance', 'totalCreatorFee', 'totalContributorFee']),
+            contribution: withWei(contributionInfo, ['amount', 'refundAmount']),
+          });
 
           console.log(chalk.blue('Contribution Information:'));
           console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
@@ -169,17 +412,16 @@ export const contributeCommand = new Command('contribute')
           console.log('\nCampaign Status:');
           console.log(`  Goal: ${chalk.green(campaignInfo.goal)} RBTC`);
           console.log(`  Raised: ${chalk.green(campaignInfo.balance)} RBTC`);
-          console.log(`  Status: ${campaignInfo.status === 0 ? chalk.blue('Active') : 
-                                   campaignInfo.status === 1 ? chalk.yellow('Cancelled') : 
-                                   chalk.green('Claimed')}`);
+          console.log(`  Status: ${formatCampaignStatus(campaignInfo.status)}`);
 
           if (contributionInfo.canRefund && parseFloat(contributionInfo.refundAmount) > 0) {
             logInfo(`You can refund with: aon-cli refund ${campaign}`);
           }
 
         } catch (error) {
-          logError(`Failed to fetch contribution info: ${error}`);
+          logError(`Failed to fetch contribution info: ${formatContractError(error)}`);
           process.exit(1);
         }
       })
-  );
+  )
+  .addCommand(batchCommand);
@@ -1,49 +1,188 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
+import { table } from 'table';
 import { ContractManager } from '../lib/contract';
+import { resolveSigner } from '../lib/signer';
+import { formatContractError } from '../lib/errors';
 import { config } from '../lib/config';
+import { getDeploymentCheckpointPath, readDeploymentCheckpoint } from '../lib/deployments';
+import { reportDryRun } from '../lib/dryrun';
+import { writeUnsignedTransactions } from '../lib/offline';
+import { emitJson, emitJsonError } from '../lib/output';
 import { 
   logSuccess, 
   logError, 
   logInfo, 
+  logWarning,
   createSpinner, 
-  getPrivateKeyFromEnv,
   formatAddress,
   formatGasUsed,
-  confirmAction 
+  isValidEthereumAddress,
+  isZeroAddress,
+  confirmAction,
+  parseTransactionOptions
 } from '../lib/utils';
+import { BytecodeStatus, DeployedContractName, DeploymentStepName } from '../types';
+
+const STEP_LABELS: Record<DeploymentStepName, string> = {
+  implementation: 'Implementation',
+  goalStrategy: 'Goal Strategy',
+  factory: 'Factory',
+  configuration: 'Configuration',
+  smokeTest: 'Smoke Test',
+};
+
+const STEP_PROGRESS: Record<DeploymentStepName, string> = {
+  implementation: 'Deploying Aon implementation',
+  goalStrategy: 'Deploying goal strategy',
+  factory: 'Deploying factory',
+  configuration: 'Saving contract addresses',
+  smokeTest: 'Creating a smoke-test campaign',
+};
+
+const BYTECODE_STATUS: Record<BytecodeStatus, string> = {
+  match: chalk.green('✓ matches'),
+  metadata: chalk.yellow('⚠ metadata differs'),
+  mismatch: chalk.red('✗ differs'),
+  'no-code': chalk.red('✗ no code'),
+};
+
+const verifyCommand = new Command('verify')
+  .description('Compare the deployed contracts with the local Foundry artifacts in out/')
+  .option('-n, --network <network>', 'Network to verify', config.getDefaultNetwork())
+  .action(async (options, command: Command) => {
+    try {
+      // deploy defines -n as well, commander hands it to deploy wherever it appears on the line
+      const deploy = command.parent!;
+      const network = deploy.getOptionValueSource('network') === 'cli' ? deploy.opts().network : options.network;
+
+      const globalOptions = options.parent?.parent?.opts() || {};
+      const manager = new ContractManager(network, undefined, globalOptions.rpcUrl);
+
+      const spinner = createSpinner('Verifying deployed bytecode...').start();
+      const verification = await manager.verifyDeployment();
+      spinner.stop();
+
+      console.log(chalk.blue('Deployment Verification:'));
+      console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+      console.log(`Network: ${chalk.green(verification.network)} (chain ${verification.chainId})`);
+      console.log(`Manifest: ${verification.manifest ?? chalk.gray('none (not deployed from this machine)')}`);
+      console.log(table([
+        ['Contract', 'Artifact', 'Address', 'Runtime Bytecode'],
+        ...verification.contracts.map((contract) => [
+          contract.contract,
+          contract.artifact,
+          contract.address,
+          BYTECODE_STATUS[contract.status],
+        ]),
+      ]));
+
+      const { implementation } = verification;
+      console.log(`Factory implementation: ${chalk.blue(implementation.actual)} ${implementation.match ? chalk.green('✓') : chalk.red('✗')}`);
+      if (!implementation.match) {
+        logWarning(`The factory creates campaigns from ${implementation.actual}, but the configured implementation is ${implementation.expected}`);
+      }
+
+      if (verification.contracts.some((contract) => contract.status === 'metadata')) {
+        logInfo('Metadata differences mean the same code compiled from different source paths or settings');
+      }
+
+      if (!verification.verified) {
+        emitJsonError('Deployment does not match the local artifacts', verification);
+        logError('Deployment does not match the local artifacts, rebuild with "forge build" at the deployed commit');
+        process.exit(1);
+      }
+
+      emitJson(verification);
+      logSuccess('Deployment matches the local artifacts');
+
+    } catch (error) {
+      logError(`Verification failed: ${formatContractError(error)}`);
+      process.exit(1);
+    }
+  });
 
 export const deployCommand = new Command('deploy')
   .description('Deploy AON contracts to a network')
-  .option('-n, --network <network>', 'Network to deploy to', 'local')
+  .option('-n, --network <network>', 'Network to deploy to', config.getDefaultNetwork())
   .option('-k, --private-key <key>', 'Private key for deployment (or use PRIVATE_KEY env var)')
+  .option('--account <name>', 'Keystore account to sign with (see "aon-cli accounts list")')
+  .option('--account-index <n>', 'HD account index from the configured mnemonic (Anvil dev mnemonic on local)')
+  .option('--signer <spec>', 'External signer: rpc:<url> (remote JSON-RPC signer) or node (node-managed account)')
+  .option('--from <address>', 'Account of the external signer (defaults to its first account), or the sender with --unsigned')
+  .option('--gas-price <gwei>', 'Gas price in gwei (defaults to the node price, at least the block minimum gas price)')
+  .option('--gas-limit <gas>', 'Gas limit (defaults to an estimate)')
+  .option('--nonce <n>', 'Nonce of the first transaction (defaults to the next pending nonce)')
+  .option('--confirmations <n>', 'Confirmations to wait for', '1')
+  .option('--timeout <duration>', 'How long to wait for confirmation (e.g., "5m", "1 hour")', '5m')
+  .option('--unsigned <file>', 'Write the unsigned transaction to a file for offline signing (see "aon-cli tx sign")')
+  .option('--owner <address>', 'Factory owner (defaults to the deployer)')
+  .option('--fee-recipient <address>', 'Recipient of platform fees (defaults to the deployer)')
+  .option('--swipe-recipient <address>', 'Recipient of swiped funds (defaults to the deployer)')
+  .option('--fresh', 'Ignore the checkpoint of a previous run and deploy every contract again')
+  .option('--dry-run', 'Simulate the transaction and show the revert reason, gas, cost and balance changes without sending')
   .option('-y, --yes', 'Skip confirmation prompts')
   .action(async (options) => {
     try {
-      const privateKey = options.privateKey || getPrivateKeyFromEnv();
+      const globalOptions = options.parent?.opts() || {};
+      const signer = await resolveSigner(options, globalOptions.rpcUrl);
       
-      if (!privateKey) {
+      if (!signer) {
         logError('Private key required for deployment');
-        logInfo('Provide via --private-key option or PRIVATE_KEY environment variable');
+        logInfo('Provide via --account, --account-index, --signer, --private-key or the PRIVATE_KEY environment variable');
         process.exit(1);
       }
 
-      const globalOptions = options.parent?.opts() || {};
+      // Factory's constructor reverts on zero addresses, so reject them before spending gas
+      const roles: [string, string | undefined][] = [
+        ['owner', options.owner],
+        ['fee recipient', options.feeRecipient],
+        ['swipe recipient', options.swipeRecipient],
+      ];
+      for (const [role, address] of roles) {
+        if (address !== undefined && (!isValidEthereumAddress(address) || isZeroAddress(address))) {
+          logError(`Invalid ${role} address`);
+          process.exit(1);
+        }
+      }
+
       const network = config.getNetwork(options.network, globalOptions.rpcUrl);
+      const manager = new ContractManager(options.network, signer, globalOptions.rpcUrl, parseTransactionOptions(options));
+      const deployer = manager.signer!.address;
+      const owner = options.owner || deployer;
+      const feeRecipient = options.feeRecipient || deployer;
+      const swipeRecipient = options.swipeRecipient || deployer;
       
       console.log(chalk.blue('Deployment Configuration:'));
       console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
       console.log(`Network: ${chalk.green(network.name)}`);
       console.log(`RPC URL: ${network.rpcUrl}`);
       console.log(`Chain ID: ${network.chainId}`);
+      console.log(`Deployer: ${chalk.blue(deployer)}`);
+      console.log(`Owner: ${chalk.blue(owner)}`);
+      console.log(`Fee Recipient: ${chalk.blue(feeRecipient)}`);
+      console.log(`Swipe Recipient: ${chalk.blue(swipeRecipient)}`);
       
+      // A previous run left a checkpoint: contracts that still have code are reused
+      const checkpoint = options.fresh ? undefined : readDeploymentCheckpoint(network.chainId);
+      if (checkpoint && !options.dryRun && !options.unsigned) {
+        console.log(`\n${chalk.yellow('↻')} Resuming from ${getDeploymentCheckpointPath(network.chainId)}:`);
+        for (const [step, label] of Object.entries(STEP_LABELS)) {
+          const deployed = checkpoint.contracts[step as DeployedContractName];
+          if (deployed) {
+            console.log(`${label}: ${deployed.address}`);
+          }
+        }
+        logInfo('Contracts without code or built from other artifacts are deployed again, pass --fresh to redeploy everything');
+      }
+
       // Check if contracts already deployed
       const existingFactory = config.getNetworkContract(options.network, 'factory');
       if (existingFactory) {
         console.log(`\n${chalk.yellow('⚠')} Contracts already deployed on this network:`);
         console.log(`Factory: ${existingFactory}`);
         
-        if (!options.yes) {
+        if (!options.yes && !options.dryRun) {
           const shouldContinue = await confirmAction('Deploy new contracts anyway?');
           if (!shouldContinue) {
             logInfo('Deployment cancelled');
@@ -52,6 +191,22 @@ export const deployCommand = new Command('deploy')
         }
       }
       
+      if (options.dryRun) {
+        const dryRunSpinner = createSpinner('Simulating deployment...').start();
+        const dryRun = await manager.dryRunDeployment({ owner, feeRecipient, swipeRecipient });
+        dryRunSpinner.stop();
+        reportDryRun(dryRun);
+        return;
+      }
+
+      if (options.unsigned) {
+        const unsignedSpinner = createSpinner('Building unsigned transactions...').start();
+        const unsigned = await manager.buildUnsignedTransactions('deploy', await manager.getDeploymentCalls({ owner, feeRecipient, swipeRecipient }));
+        unsignedSpinner.stop();
+        writeUnsignedTransactions(options.unsigned, unsigned);
+        return;
+      }
+
       if (!options.yes) {
         const shouldDeploy = await confirmAction('\nProceed with deployment?');
         if (!shouldDeploy) {
@@ -63,10 +218,13 @@ export const deployCommand = new Command('deploy')
       const spinner = createSpinner('Deploying contracts...').start();
       
       try {
-        const manager = new ContractManager(options.network, privateKey, globalOptions.rpcUrl);
-        const result = await manager.deployContracts();
+        const result = await manager.deployContracts(
+          { owner, feeRecipient, swipeRecipient, fresh: options.fresh },
+          (step) => { spinner.text = `${STEP_PROGRESS[step]}...`; }
+        );
         
         spinner.stop();
+        emitJson(result);
         
         console.log(chalk.green('\n✓ Deployment successful!'));
         console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
@@ -75,32 +233,47 @@ export const deployCommand = new Command('deploy')
         console.log(`Block: ${chalk.gray(result.blockNumber)}`);
         console.log(`Gas Used: ${chalk.yellow(formatGasUsed(result.gasUsed))}`);
         console.log('');
+        console.log('Steps:');
+        for (const { step, status } of result.steps) {
+          console.log(`  ${`${STEP_LABELS[step]}:`.padEnd(17)}${status === 'done' ? chalk.green('done') : chalk.gray('skipped (already done)')}`);
+        }
+        console.log('');
         console.log('Contract Addresses:');
         console.log(`  Factory:        ${chalk.blue(result.factory)}`);
         console.log(`  Implementation: ${chalk.blue(result.implementation)}`);
         console.log(`  Goal Strategy:  ${chalk.blue(result.goalStrategy)}`);
+        console.log('');
+        console.log('Factory Roles:');
+        console.log(`  Owner:           ${chalk.blue(result.owner)}`);
+        console.log(`  Fee Recipient:   ${chalk.blue(result.feeRecipient)}`);
+        console.log(`  Swipe Recipient: ${chalk.blue(result.swipeRecipient)}`);
         
         logSuccess('Contract addresses saved to configuration');
+        if (result.smokeTestCampaign) {
+          logSuccess(`Smoke test passed, created and read back campaign ${result.smokeTestCampaign}`);
+        }
+        logInfo(`Deployment manifest: ${result.manifest}`);
         logInfo('You can now create campaigns with: aon-cli campaign create');
         
       } catch (deployError) {
         spinner.stop();
         
-        if (deployError instanceof Error && deployError.message.includes('insufficient funds')) {
-          logError('Insufficient funds for deployment');
-          logInfo('Ensure your account has enough RBTC for gas fees');
-        } else if (deployError instanceof Error && deployError.message.includes('network')) {
+        if (deployError instanceof Error && deployError.message.includes('network')) {
           logError('Network connection failed');
           logInfo(`Check that ${network.rpcUrl} is accessible`);
         } else {
-          logError(`Deployment failed: ${deployError}`);
+          logError(`Deployment failed: ${formatContractError(deployError)}`);
+        }
+        if (readDeploymentCheckpoint(network.chainId)) {
+          logInfo('Completed steps are checkpointed, rerun the same command to resume');
         }
         
         process.exit(1);
       }
       
     } catch (error) {
-      logError(`Deployment error: ${error}`);
+      logError(`Deployment error: ${formatContractError(error)}`);
       process.exit(1);
     }
-  });
+  })
+  .addCommand(verifyCommand);
@@ -0,0 +1,413 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { table } from 'table';
+import { ContractManager } from '../lib/contract';
+import { resolveSigner } from '../lib/signer';
+import { formatContractError } from '../lib/errors';
+import { config } from '../lib/config';
+import { writeUnsignedTransactions } from '../lib/offline';
+import { emitJson } from '../lib/output';
+import {
+  logSuccess,
+  logError,
+  logInfo,
+  logWarning,
+  createSpinner,
+  isValidEthereumAddress,
+  isZeroAddress,
+  confirmAction,
+  parseTransactionOptions
+} from '../lib/utils';
+import { FactoryInfo, ImplementationGroup } from '../types';
+
+type FactoryField = 'implementation' | 'feeRecipient' | 'swipeRecipient' | 'owner';
+
+const FIELD_LABELS: Record<FactoryField, string> = {
+  owner: 'Owner',
+  implementation: 'Implementation',
+  feeRecipient: 'Fee Recipient',
+  swipeRecipient: 'Swipe Recipient',
+};
+
+function printFactoryInfo(info: FactoryInfo, previous?: FactoryInfo): void {
+  console.log(`Factory: ${chalk.green(info.address)}`);
+
+  for (const field of Object.keys(FIELD_LABELS) as FactoryField[]) {
+    const label = `${FIELD_LABELS[field]}:`.padEnd(17);
+
+    if (previous && previous[field].toLowerCase() !== info[field].toLowerCase()) {
+      console.log(`${label}${chalk.red(previous[field])} → ${chalk.green(info[field])}`);
+    } else {
+      console.log(`${label}${chalk.blue(info[field])}`);
+    }
+  }
+}
+
+function createSetterCommand(
+  name: string,
+  field: FactoryField,
+  functionName: 'setImplementation' | 'setFeeRecipient' | 'setSwipeRecipient' | 'transferOwnership',
+  zeroAddressError: string
+) {
+  const label = FIELD_LABELS[field].toLowerCase();
+
+  return new Command(name)
+    .description(`Set the factory ${label} (factory owner only)`)
+    .argument('<address>', `New ${label} address`)
+    .option('-n, --network <network>', 'Network to use', config.getDefaultNetwork())
+    .option('-k, --private-key <key>', 'Private key of the factory owner (or use PRIVATE_KEY env var)')
+    .option('--account <name>', 'Keystore account to sign with (see "aon-cli accounts list")')
+    .option('--account-index <n>', 'HD account index from the configured mnemonic (Anvil dev mnemonic on local)')
+    .option('--signer <spec>', 'External signer: rpc:<url> (remote JSON-RPC signer) or node (node-managed account)')
+    .option('--from <address>', 'Account of the external signer (defaults to its first account), or the sender with --unsigned')
+    .option('--gas-price <gwei>', 'Gas price in gwei (defaults to the node price, at least the block minimum gas price)')
+    .option('--gas-limit <gas>', 'Gas limit (defaults to an estimate)')
+    .option('--nonce <n>', 'Nonce of the first transaction (defaults to the next pending nonce)')
+    .option('--confirmations <n>', 'Confirmations to wait for', '1')
+    .option('--timeout <duration>', 'How long to wait for confirmation (e.g., "5m", "1 hour")', '5m')
+    .option('--unsigned <file>', 'Write the unsigned transaction to a file for offline signing (see "aon-cli tx sign")')
+    .option('-y, --yes', 'Skip confirmation prompts')
+    .action(async (address, options) => {
+      try {
+        // Validate inputs
+        if (!isValidEthereumAddress(address)) {
+          logError(`Invalid ${label} address`);
+          process.exit(1);
+        }
+
+        // Mirrors the Factory's zero address reverts
+        if (isZeroAddress(address)) {
+          logError(zeroAddressError);
+          process.exit(1);
+        }
+
+        const globalOptions = options.parent?.parent?.opts() || {};
+        const signer = await resolveSigner(options, globalOptions.rpcUrl);
+        if (!signer) {
+          logError('Private key required for factory administration');
+          process.exit(1);
+        }
+
+        const manager = new ContractManager(options.network, signer, globalOptions.rpcUrl, parseTransactionOptions(options));
+        const sender = manager.signer!.address;
+
+        const spinner = createSpinner('Fetching factory information...').start();
+        const before = await manager.getFactoryInfo();
+        spinner.stop();
+
+        if (before.owner.toLowerCase() !== sender.toLowerCase()) {
+          logError(`Signer ${sender} is not the factory owner (${before.owner})`);
+          process.exit(1);
+        }
+
+        if (before[field].toLowerCase() === address.toLowerCase()) {
+          logInfo(`Factory ${label} is already ${address}`);
+          return;
+        }
+
+        console.log(chalk.blue('Factory Update:'));
+        console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+        printFactoryInfo({ ...before, [field]: address }, before);
+
+        if (field === 'owner') {
+          console.log(`\n${chalk.yellow('⚠')} You will lose owner access to the factory`);
+        }
+
+        if (options.unsigned) {
+          const unsignedSpinner = createSpinner('Building unsigned transaction...').start();
+          const unsigned = await manager.buildUnsignedTransactions(`factory ${name}`, [
+            manager.getFactoryAdminCall(functionName, address),
+          ]);
+          unsignedSpinner.stop();
+          writeUnsignedTransactions(options.unsigned, unsigned);
+          return;
+        }
+
+        if (!options.yes) {
+          const shouldUpdate = await confirmAction('\nProceed with factory update?');
+          if (!shouldUpdate) {
+            logInfo('Factory update cancelled');
+            return;
+          }
+        }
+
+        const updateSpinner = createSpinner(`Updating factory ${label}...`).start();
+
+        try {
+          const txHash = await manager[functionName](address);
+          const after = await manager.getFactoryInfo();
+          updateSpinner.stop();
+
+          config.setNetworkContract(options.network, field, after[field]);
+          emitJson({ transactionHash: txHash, before, after });
+
+          logSuccess(`Factory ${label} updated successfully!`);
+          console.log(`Transaction: ${chalk.blue(txHash)}`);
+          console.log('');
+          printFactoryInfo(after, before);
+
+        } catch (updateError) {
+          updateSpinner.stop();
+          logError(`Factory update failed: ${formatContractError(updateError)}`);
+          process.exit(1);
+        }
+
+      } catch (error) {
+        logError(`Factory update error: ${formatContractError(error)}`);
+        process.exit(1);
+      }
+    });
+}
+
+const formatVersion = (version?: number) => (version === undefined ? chalk.gray('unknown') : `v${version}`);
+
+const upgradeCommand = new Command('upgrade')
+  .description('Deploy a new Aon implementation from out/ and point the factory at it (factory owner only)')
+  .option('-n, --network <network>', 'Network to use', config.getDefaultNetwork())
+  .option('-k, --private-key <key>', 'Private key of the factory owner (or use PRIVATE_KEY env var)')
+  .option('--account <name>', 'Keystore account to sign with (see "aon-cli accounts list")')
+  .option('--account-index <n>', 'HD account index from the configured mnemonic (Anvil dev mnemonic on local)')
+  .option('--signer <spec>', 'External signer: rpc:<url> (remote JSON-RPC signer) or node (node-managed account)')
+  .option('--from <address>', 'Account of the external signer (defaults to its first account)')
+  .option('--gas-price <gwei>', 'Gas price in gwei (defaults to the node price, at least the block minimum gas price)')
+  .option('--gas-limit <gas>', 'Gas limit (defaults to an estimate)')
+  .option('--nonce <n>', 'Nonce of the first transaction (defaults to the next pending nonce)')
+  .option('--confirmations <n>', 'Confirmations to wait for', '1')
+  .option('--timeout <duration>', 'How long to wait for confirmation (e.g., "5m", "1 hour")', '5m')
+  .option('--force', 'Allow an implementation with a lower VERSION than the current one')
+  .option('-y, --yes', 'Skip confirmation prompts')
+  .action(async (options) => {
+    try {
+      const globalOptions = options.parent?.parent?.opts() || {};
+      const signer = await resolveSigner(options, globalOptions.rpcUrl);
+      if (!signer) {
+        logError('Private key required for factory administration');
+        process.exit(1);
+      }
+
+      const manager = new ContractManager(options.network, signer, globalOptions.rpcUrl, parseTransactionOptions(options));
+      const sender = manager.signer!.address;
+
+      const spinner = createSpinner('Fetching factory information...').start();
+      const before = await manager.getFactoryInfo();
+      const [currentVersion, newVersion] = await Promise.all([
+        manager.getImplementationVersion(before.implementation),
+        manager.getArtifactImplementationVersion(),
+      ]);
+      spinner.stop();
+
+      // Checked before deploying, only the owner can switch the implementation
+      if (before.owner.toLowerCase() !== sender.toLowerCase()) {
+        logError(`Signer ${sender} is not the factory owner (${before.owner})`);
+        process.exit(1);
+      }
+
+      console.log(chalk.blue('Implementation Upgrade:'));
+      console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+      console.log(`Factory: ${chalk.green(before.address)}`);
+      console.log(`Current Implementation: ${chalk.blue(before.implementation)} (${formatVersion(currentVersion)})`);
+      console.log(`New Implementation: out/Aon.sol (${formatVersion(newVersion)})`);
+
+      // VERSION is read from the creation code, so a refused downgrade costs nothing
+      const isDowngrade = newVersion !== undefined && currentVersion !== undefined && newVersion < currentVersion;
+      if (isDowngrade && !options.force) {
+        logError(`The new implementation is ${formatVersion(newVersion)}, older than the current ${formatVersion(currentVersion)}. Pass --force to downgrade`);
+        process.exit(1);
+      }
+      if (newVersion !== undefined && newVersion === currentVersion) {
+        logWarning(`The new implementation has the same VERSION (${formatVersion(currentVersion)}), campaigns of both will report the same version`);
+      }
+
+      if (!options.yes) {
+        const shouldDeploy = await confirmAction('\nDeploy the new implementation from out/?');
+        if (!shouldDeploy) {
+          logInfo('Upgrade cancelled');
+          return;
+        }
+      }
+
+      const deploySpinner = createSpinner('Deploying Aon implementation...').start();
+      const deployment = await manager.deployImplementation();
+      deploySpinner.stop();
+
+      console.log(`\nNew Implementation: ${chalk.green(deployment.address)} (${formatVersion(deployment.version)})`);
+      console.log(`Transaction: ${chalk.blue(deployment.transactionHash)}`);
+      logInfo(`Deployment manifest: ${deployment.manifest}`);
+
+      if (!options.yes) {
+        const shouldUpgrade = await confirmAction('\nPoint the factory at the new implementation?');
+        if (!shouldUpgrade) {
+          logInfo(`Upgrade cancelled, point the factory at it later with: aon-cli factory set-implementation ${deployment.address}`);
+          return;
+        }
+      }
+
+      const updateSpinner = createSpinner('Updating factory implementation...').start();
+
+      try {
+        const txHash = await manager.setImplementation(deployment.address);
+        const after = await manager.getFactoryInfo();
+        updateSpinner.stop();
+
+        config.setNetworkContract(options.network, 'implementation', after.implementation);
+        emitJson({ deployment, previousVersion: currentVersion, transactionHash: txHash, before, after });
+
+        logSuccess(`Factory upgraded to ${formatVersion(deployment.version)}!`);
+        console.log(`Transaction: ${chalk.blue(txHash)}`);
+        console.log('');
+        printFactoryInfo(after, before);
+        logInfo('Existing campaigns keep their implementation, see: aon-cli factory versions');
+
+      } catch (updateError) {
+        updateSpinner.stop();
+        logError(`Factory update failed: ${formatContractError(updateError)}`);
+        logInfo(`Retry with: aon-cli factory set-implementation ${deployment.address}`);
+        process.exit(1);
+      }
+
+    } catch (error) {
+      logError(`Upgrade error: ${formatContractError(error)}`);
+      process.exit(1);
+    }
+  });
+
+const versionsCommand = new Command('versions')
+  .description('Group the factory\'s campaigns by the implementation and VERSION they run')
+  .option('-n, --network <network>', 'Network to use', config.getDefaultNetwork())
+  .option('--from-block <block>', 'Block to start scanning factory events from', '0')
+  .option('--chunk-size <blocks>', 'Number of blocks per log query', '2000')
+  .action(async (options) => {
+    try {
+      const globalOptions = options.parent?.parent?.opts() || {};
+      const manager = new ContractManager(options.network, undefined, globalOptions.rpcUrl);
+
+      const spinner = createSpinner('Fetching factory information...').start();
+      const info = await manager.getFactoryInfo();
+
+      spinner.text = 'Scanning factory events...';
+      const created = await manager.getCreatedCampaigns(
+        BigInt(options.fromBlock),
+        BigInt(options.chunkSize),
+        (scannedBlock, latestBlock) => {
+          spinner.text = `Scanning factory events... (block ${scannedBlock}/${latestBlock})`;
+        }
+      );
+
+      // Read in small batches to avoid hammering public nodes
+      const implementations: string[] = [];
+      for (let i = 0; i < created.length; i += 10) {
+        spinner.text = `Reading campaign implementations... (${i}/${created.length})`;
+        implementations.push(...await Promise.all(
+          created.slice(i, i + 10).map((campaign) => manager.getCampaignImplementation(campaign.address))
+        ));
+      }
+
+      const groups = new Map<string, ImplementationGroup>();
+      groups.set(info.implementation.toLowerCase(), { implementation: info.implementation, current: true, campaigns: [] });
+      created.forEach((campaign, index) => {
+        const key = implementations[index].toLowerCase();
+        if (!groups.has(key)) {
+          groups.set(key, { implementation: implementations[index], current: false, campaigns: [] });
+        }
+        groups.get(key)!.campaigns.push(campaign.address);
+      });
+
+      for (const group of groups.values()) {
+        group.version = await manager.getImplementationVersion(group.implementation);
+      }
+
+      spinner.stop();
+
+      // Current implementation first, then newest VERSION first
+      const report = [...groups.values()].sort((a, b) =>
+        Number(b.current) - Number(a.current) || (b.version ?? -1) - (a.version ?? -1)
+      );
+      emitJson({ factory: info.address, implementation: info.implementation, campaigns: created.length, groups: report });
+
+      console.log(chalk.blue('Campaign Implementations:'));
+      console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+      console.log(`Factory: ${chalk.green(info.address)}`);
+      console.log(`Campaigns: ${chalk.green(created.length)}`);
+      console.log(table([
+        ['', 'Implementation', 'Version', 'Campaigns'],
+        ...report.map((group) => [
+          group.current ? chalk.green('→') : '',
+          group.implementation,
+          formatVersion(group.version),
+          group.campaigns.length,
+        ]),
+      ]));
+
+      const outdated = report.filter((group) => !group.current && group.campaigns.length > 0);
+      if (outdated.length === 0) {
+        logSuccess('Every campaign runs the current implementation');
+        return;
+      }
+
+      for (const group of outdated) {
+        console.log(chalk.yellow(`Campaigns on ${group.implementation} (${formatVersion(group.version)}):`));
+        for (const campaign of group.campaigns) {
+          console.log(`  ${campaign}`);
+        }
+      }
+      logInfo('Campaign proxies cannot be upgraded, they run their implementation until they finish');
+
+    } catch (error) {
+      logError(`Failed to report campaign versions: ${formatContractError(error)}`);
+      process.exit(1);
+    }
+  });
+
+export const factoryCommand = new Command('factory')
+  .description('Inspect and administer the AON factory')
+  .addCommand(
+    new Command('show')
+      .description('Show the factory configuration')
+      .option('-n, --network <network>', 'Network to use', config.getDefaultNetwork())
+      .action(async (options) => {
+        try {
+          const spinner = createSpinner('Fetching factory information...').start();
+
+          const globalOptions = options.parent?.parent?.opts() || {};
+          const manager = new ContractManager(options.network, undefined, globalOptions.rpcUrl);
+          const info = await manager.getFactoryInfo();
+
+          spinner.stop();
+          emitJson(info);
+
+          console.log(chalk.blue('Factory Information:'));
+          console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+          printFactoryInfo(info);
+
+        } catch (error) {
+          logError(`Failed to fetch factory info: ${formatContractError(error)}`);
+          process.exit(1);
+        }
+      })
+  )
+  .addCommand(createSetterCommand(
+    'set-implementation',
+    'implementation',
+    'setImplementation',
+    'Implementation cannot be the zero address (InvalidImplementation)'
+  ))
+  .addCommand(createSetterCommand(
+    'set-fee-recipient',
+    'feeRecipient',
+    'setFeeRecipient',
+    'Fee recipient cannot be the zero address (InvalidFeeRecipient)'
+  ))
+  .addCommand(createSetterCommand(
+    'set-swipe-recipient',
+    'swipeRecipient',
+    'setSwipeRecipient',
+    'Swipe recipient cannot be the zero address (InvalidSwipeRecipient)'
+  ))
+  .addCommand(createSetterCommand(
+    'transfer-ownership',
+    'owner',
+    'transferOwnership',
+    'Owner cannot be the zero address (OwnableInvalidOwner)'
+  ))
+  .addCommand(upgradeCommand)
+  .addCommand(versionsCommand);
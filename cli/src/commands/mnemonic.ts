@@ -0,0 +1,205 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { table } from 'table';
+import { config } from '../lib/config';
+import { promptPassword, promptSecret } from '../lib/keystore';
+import {
+  ANVIL_MNEMONIC,
+  deriveAccounts,
+  generateMnemonic,
+  getCoinType,
+  getMnemonicDerivation,
+  mnemonicExists,
+  normalizeMnemonic,
+  removeMnemonic,
+  saveMnemonic,
+  unlockMnemonic,
+  validateMnemonic
+} from '../lib/mnemonic';
+import { emitJson } from '../lib/output';
+import {
+  logSuccess,
+  logError,
+  logInfo,
+  logWarning,
+  createSpinner,
+  confirmAction
+} from '../lib/utils';
+import { DerivationScheme } from '../types';
+
+function validateDerivation(derivation: string): DerivationScheme {
+  if (derivation !== 'rsk' && derivation !== 'ethereum') {
+    logError('Invalid derivation. Supported: rsk, ethereum');
+    process.exit(1);
+  }
+  return derivation;
+}
+
+async function storeMnemonic(mnemonic: string, derivation: DerivationScheme): Promise<void> {
+  if (mnemonicExists()) {
+    logError('A mnemonic is already configured. Remove it first with: aon-cli mnemonic remove');
+    process.exit(1);
+  }
+
+  const password = await promptPassword('New mnemonic password:', true);
+
+  const spinner = createSpinner('Encrypting mnemonic...').start();
+  const path = saveMnemonic(mnemonic, derivation, password);
+  spinner.stop();
+
+  logSuccess('Mnemonic saved');
+  console.log(`Derivation: ${chalk.blue(derivation)}`);
+  console.log(`File: ${chalk.gray(path)}`);
+  logInfo('Sign with a derived account using: --account-index <n>');
+}
+
+export const mnemonicCommand = new Command('mnemonic')
+  .description('Manage the encrypted BIP-39 mnemonic used by --account-index')
+  .addCommand(
+    new Command('generate')
+      .description('Generate and store a new mnemonic')
+      .option('--words <count>', 'Number of words (12 or 24)', '12')
+      .option('--derivation <scheme>', "Derivation path: rsk (137'/37310') or ethereum (60')", 'rsk')
+      .action(async (options) => {
+        try {
+          const derivation = validateDerivation(options.derivation);
+          if (options.words !== '12' && options.words !== '24') {
+            logError('Words must be 12 or 24');
+            process.exit(1);
+          }
+
+          const mnemonic = generateMnemonic(options.words === '24' ? 24 : 12);
+          await storeMnemonic(mnemonic, derivation);
+          emitJson({ derivation, mnemonic });
+
+          console.log('');
+          logWarning('Write down this mnemonic, it is only shown once:');
+          console.log(chalk.yellow(mnemonic));
+
+        } catch (error) {
+          logError(`Failed to generate mnemonic: ${error instanceof Error ? error.message : error}`);
+          process.exit(1);
+        }
+      })
+  )
+  .addCommand(
+    new Command('import')
+      .description('Import an existing mnemonic (prompted)')
+      .option('--derivation <scheme>', "Derivation path: rsk (137'/37310') or ethereum (60')", 'rsk')
+      .action(async (options) => {
+        try {
+          const derivation = validateDerivation(options.derivation);
+          const mnemonic = normalizeMnemonic(await promptSecret('Mnemonic:'));
+
+          if (!validateMnemonic(mnemonic)) {
+            logError('Invalid BIP-39 mnemonic (unknown word or bad checksum)');
+            process.exit(1);
+          }
+
+          await storeMnemonic(mnemonic, derivation);
+          emitJson({ derivation });
+
+        } catch (error) {
+          logError(`Failed to import mnemonic: ${error instanceof Error ? error.message : error}`);
+          process.exit(1);
+        }
+      })
+  )
+  .addCommand(
+    new Command('derive')
+      .description('List accounts derived from the mnemonic for a network')
+      .option('-n, --network <network>', 'Network to use', config.getDefaultNetwork())
+      .option('-c, --count <n>', 'Number of accounts to derive', '10')
+      .option('--start <index>', 'First account index', '0')
+      .option('--anvil', 'Derive from the Anvil dev mnemonic instead of the configured one')
+      .action(async (options) => {
+        try {
+          const count = parseInt(options.count);
+          const start = parseInt(options.start);
+          if (isNaN(count) || count <= 0 || isNaN(start) || start < 0) {
+            logError('Count must be positive and start must be a non-negative number');
+            process.exit(1);
+          }
+
+          const network = config.getNetwork(options.network);
+          const { mnemonic, derivation } = options.anvil
+            ? { mnemonic: ANVIL_MNEMONIC, derivation: 'ethereum' as DerivationScheme }
+            : await unlockMnemonic();
+
+          const accounts = deriveAccounts(mnemonic, getCoinType(derivation, network.chainId), start, count);
+          emitJson({
+            network: network.name,
+            derivation,
+            accounts: accounts.map(({ index, path, address }) => ({ index, path, address })),
+          });
+
+          console.log(chalk.blue(`Derived Accounts (${network.name}, ${derivation}):`));
+          console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+          console.log(table([
+            ['Index', 'Path', 'Address'],
+            ...accounts.map((account) => [chalk.gray(account.index.toString()), account.path, chalk.green(account.address)]),
+          ]));
+
+          if (options.network === 'local' && !options.anvil) {
+            logInfo('On local, --account-index signs with the Anvil dev accounts (see --anvil)');
+          }
+
+        } catch (error) {
+          logError(`Failed to derive accounts: ${error instanceof Error ? error.message : error}`);
+          process.exit(1);
+        }
+      })
+  )
+  .addCommand(
+    new Command('show')
+      .description('Print the stored mnemonic (requires the password)')
+      .option('-y, --yes', 'Skip confirmation prompts')
+      .action(async (options) => {
+        try {
+          if (!options.yes) {
+            const shouldShow = await confirmAction('Print the mnemonic to the terminal?');
+            if (!shouldShow) {
+              logInfo('Cancelled');
+              return;
+            }
+          }
+
+          const { mnemonic, derivation } = await unlockMnemonic();
+          emitJson({ derivation, mnemonic });
+
+          console.log(`Derivation: ${chalk.blue(derivation)}`);
+          console.log(`Mnemonic: ${mnemonic}`);
+
+        } catch (error) {
+          logError(`Failed to show mnemonic: ${error instanceof Error ? error.message : error}`);
+          process.exit(1);
+        }
+      })
+  )
+  .addCommand(
+    new Command('remove')
+      .description('Delete the stored mnemonic')
+      .option('-y, --yes', 'Skip confirmation prompts')
+      .action(async (options) => {
+        try {
+          const derivation = getMnemonicDerivation();
+
+          if (!options.yes) {
+            logWarning('Funds are lost if this is the only copy of the mnemonic');
+            const shouldRemove = await confirmAction('Delete the stored mnemonic?');
+            if (!shouldRemove) {
+              logInfo('Removal cancelled');
+              return;
+            }
+          }
+
+          removeMnemonic();
+          emitJson({ derivation });
+          logSuccess('Mnemonic removed');
+
+        } catch (error) {
+          logError(`Failed to remove mnemonic: ${error instanceof Error ? error.message : error}`);
+          process.exit(1);
+        }
+      })
+  );
@@ -0,0 +1,234 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { table } from 'table';
+import { createPublicClient, http } from 'viem';
+import { config } from '../lib/config';
+import { formatContractError } from '../lib/errors';
+import { emitJson } from '../lib/output';
+import {
+  logSuccess,
+  logError,
+  logInfo,
+  logWarning,
+  createSpinner,
+  confirmAction
+} from '../lib/utils';
+import { NetworkConfig } from '../types';
+
+const CONTRACT_LABELS: Record<keyof NonNullable<NetworkConfig['contracts']>, string> = {
+  factory: 'Factory',
+  implementation: 'Implementation',
+  goalStrategy: 'Goal Strategy',
+  owner: 'Owner',
+  feeRecipient: 'Fee Recipient',
+  swipeRecipient: 'Swipe Recipient',
+};
+
+function getNetworkOrExit(name: string): NetworkConfig {
+  const network = config.listNetworks()[name];
+  if (!network) {
+    logError(`Network '${name}' not found, see: aon-cli network list`);
+    process.exit(1);
+  }
+  return network;
+}
+
+export const networkCommand = new Command('network')
+  .description('Manage the networks the CLI connects to')
+  .addCommand(
+    new Command('list')
+      .description('List configured networks')
+      .action(async () => {
+        try {
+          const networks = config.listNetworks();
+          const defaultNetwork = config.getDefaultNetwork();
+
+          emitJson({
+            defaultNetwork,
+            networks: Object.entries(networks).map(([key, network]) => ({ key, ...network })),
+          });
+
+          console.log(chalk.blue('Configured Networks:'));
+          console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+          console.log(table([
+            ['', 'Network', 'Name', 'RPC URL', 'Chain ID', 'Factory'],
+            ...Object.entries(networks).map(([key, network]) => [
+              key === defaultNetwork ? chalk.green('→') : '',
+              chalk.blue(key),
+              network.name,
+              network.rpcUrl,
+              network.chainId,
+              network.contracts?.factory || chalk.gray('not deployed'),
+            ]),
+          ]));
+          logInfo('Change the default network with: aon-cli network use <network>');
+
+        } catch (error) {
+          logError(`Failed to list networks: ${formatContractError(error)}`);
+          process.exit(1);
+        }
+      })
+  )
+  .addCommand(
+    new Command('show')
+      .description('Show a network and its deployed contracts')
+      .argument('[network]', 'Network to show (defaults to the default network)')
+      .action(async (name) => {
+        try {
+          const key = name || config.getDefaultNetwork();
+          const network = getNetworkOrExit(key);
+          const isDefault = key === config.getDefaultNetwork();
+          const builtIn = config.isBuiltInNetwork(key);
+
+          emitJson({ key, ...network, default: isDefault, builtIn });
+
+          console.log(chalk.blue('Network Information:'));
+          console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+          console.log(`Network: ${chalk.green(key)}${isDefault ? chalk.gray(' (default)') : ''}`);
+          console.log(`Name: ${chalk.green(network.name)}`);
+          console.log(`RPC URL: ${chalk.blue(network.rpcUrl)}`);
+          console.log(`Chain ID: ${chalk.green(network.chainId)}`);
+          console.log(`Type: ${builtIn ? 'Built-in' : 'Custom'}`);
+
+          console.log(chalk.blue('\nContracts:'));
+          const contracts = Object.entries(CONTRACT_LABELS)
+            .filter(([field]) => network.contracts?.[field as keyof typeof CONTRACT_LABELS]);
+
+          if (contracts.length === 0) {
+            logInfo(`No contracts deployed yet. Run: aon-cli deploy --network ${key}`);
+            return;
+          }
+
+          for (const [field, label] of contracts) {
+            console.log(`${`${label}:`.padEnd(17)}${chalk.green(network.contracts![field as keyof typeof CONTRACT_LABELS])}`);
+          }
+
+        } catch (error) {
+          logError(`Failed to show network: ${formatContractError(error)}`);
+          process.exit(1);
+        }
+      })
+  )
+  .addCommand(
+    new Command('add')
+      .description('Add a custom network')
+      .argument('<network>', 'Network key used with --network (letters, numbers, "-" and "_")')
+      .argument('<rpc-url>', 'JSON-RPC endpoint (http or https, ws or wss for campaign watch)')
+      .option('--chain-id <id>', 'Chain ID (queried from the RPC endpoint if omitted)')
+      .option('--display-name <name>', 'Display name (defaults to the network key)')
+      .option('--use', 'Make it the default network')
+      .action(async (key, rpcUrl, options) => {
+        try {
+          // Validate inputs
+          if (!/^[A-Za-z0-9][A-Za-z0-9_-]*$/.test(key)) {
+            logError('Network keys may only contain letters, numbers, "-" and "_"');
+            process.exit(1);
+          }
+
+          if (config.listNetworks()[key]) {
+            logError(`Network '${key}' already exists, remove it first with: aon-cli network remove ${key}`);
+            process.exit(1);
+          }
+
+          if (!/^(https?|wss?):\/\//.test(rpcUrl)) {
+            logError('RPC URL must start with http://, https://, ws:// or wss://');
+            process.exit(1);
+          }
+
+          let chainId: number;
+          if (options.chainId !== undefined) {
+            chainId = Number(options.chainId);
+            if (!Number.isSafeInteger(chainId) || chainId <= 0) {
+              logError('Chain ID must be a positive integer');
+              process.exit(1);
+            }
+          } else {
+            if (!/^https?:\/\//.test(rpcUrl)) {
+              logError('Pass --chain-id for WebSocket endpoints');
+              process.exit(1);
+            }
+
+            const spinner = createSpinner('Querying chain ID...').start();
+            try {
+              chainId = await createPublicClient({ transport: http(rpcUrl, { retryCount: 0 }) }).getChainId();
+              spinner.stop();
+            } catch (queryError) {
+              spinner.stop();
+              logError(`Could not query the chain ID, pass --chain-id: ${formatContractError(queryError)}`);
+              process.exit(1);
+            }
+          }
+
+          const network: NetworkConfig = { name: options.displayName || key, rpcUrl, chainId };
+          config.addNetwork(key, network);
+          if (options.use) {
+            config.setDefaultNetwork(key);
+          }
+
+          emitJson({ key, ...network, default: Boolean(options.use) });
+
+          logSuccess(`Network '${key}' added`);
+          console.log(`RPC URL: ${chalk.blue(rpcUrl)}`);
+          console.log(`Chain ID: ${chalk.green(chainId)}`);
+          if (options.use) {
+            logInfo(`'${key}' is now the default network`);
+          } else {
+            logInfo(`Use it with --network ${key}, or make it the default with: aon-cli network use ${key}`);
+          }
+
+        } catch (error) {
+          logError(`Failed to add network: ${formatContractError(error)}`);
+          process.exit(1);
+        }
+      })
+  )
+  .addCommand(
+    new Command('remove')
+      .description('Remove a custom network')
+      .argument('<network>', 'Network to remove')
+      .option('-y, --yes', 'Skip confirmation prompts')
+      .action(async (key, options) => {
+        try {
+          const network = getNetworkOrExit(key);
+
+          if (network.contracts?.factory) {
+            logWarning(`The recorded contract addresses of '${key}' will be lost (factory ${network.contracts.factory})`);
+          }
+
+          if (!options.yes) {
+            const shouldRemove = await confirmAction(`Remove network '${key}'?`);
+            if (!shouldRemove) {
+              logInfo('Removal cancelled');
+              return;
+            }
+          }
+
+          config.removeNetwork(key);
+
+          emitJson({ removed: key });
+          logSuccess(`Network '${key}' removed`);
+
+        } catch (error) {
+          logError(`Failed to remove network: ${formatContractError(error)}`);
+          process.exit(1);
+        }
+      })
+  )
+  .addCommand(
+    new Command('use')
+      .description('Set the default network for every command')
+      .argument('<network>', 'Network to use by default')
+      .action(async (key) => {
+        try {
+          const network = getNetworkOrExit(key);
+          config.setDefaultNetwork(key);
+
+          emitJson({ defaultNetwork: key, ...network });
+          logSuccess(`Default network set to '${key}' (${network.name}, chain ${network.chainId})`);
+
+        } catch (error) {
+          logError(`Failed to set the default network: ${formatContractError(error)}`);
+          process.exit(1);
+        }
+      })
+  );
@@ -1,24 +1,186 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
+import { formatEther } from 'viem';
 import { ContractManager } from '../lib/contract';
+import { resolveSigner, SignerOptions } from '../lib/signer';
+import { config } from '../lib/config';
+import { formatContractError } from '../lib/errors';
+import { reportDryRun } from '../lib/dryrun';
+import { writeUnsignedTransactions } from '../lib/offline';
+import { emitJson, emitJsonError, withWei } from '../lib/output';
+import { DEFAULT_LOCK_FUNCTION_SIGNATURE, readSignatureBundle, recoverBundleSigner, validateSwapBundle } from '../lib/eip712';
+import { CampaignStatus, SwapContractLockParams } from '../types';
 import { 
   logSuccess, 
   logError, 
   logInfo, 
   createSpinner, 
-  getPrivateKeyFromEnv,
   validateEthAmount,
   isValidEthereumAddress,
   confirmAction,
-  formatAddress 
+  formatAddress,
+  formatCampaignStatus,
+  formatTime,
+  parseTransactionOptions
 } from '../lib/utils';
 
+interface RelayRefundOptions extends SignerOptions {
+  toSwap: string;
+  claimAddress?: string;
+  timelock?: string;
+  lockFunction: string;
+  network: string;
+  gasPrice?: string;
+  gasLimit?: string;
+  nonce?: string;
+  confirmations?: string;
+  timeout?: string;
+  dryRun?: boolean;
+  yes?: boolean;
+  parent?: { opts(): { rpcUrl?: string } };
+}
+
+async function relayRefundToSwap(campaign: string, options: RelayRefundOptions): Promise<void> {
+  const bundle = readSignatureBundle(options.toSwap);
+
+  if (bundle.type !== 'refund') {
+    logError(`Expected a refund signature bundle, got: ${bundle.type}`);
+    process.exit(1);
+  }
+
+  if (bundle.campaign.toLowerCase() !== campaign.toLowerCase()) {
+    logError(`Signature bundle is for campaign ${bundle.campaign}`);
+    process.exit(1);
+  }
+
+  if (!options.claimAddress || !isValidEthereumAddress(options.claimAddress)) {
+    logError('A valid --claim-address is required to lock funds in the swap contract');
+    process.exit(1);
+  }
+
+  if (!options.timelock || !/^\d+$/.test(options.timelock)) {
+    logError('A numeric --timelock is required to lock funds in the swap contract');
+    process.exit(1);
+  }
+
+  const lockParams: SwapContractLockParams = {
+    functionSignature: options.lockFunction,
+    preimageHash: bundle.preimageHash,
+    claimAddress: options.claimAddress,
+    refundAddress: bundle.refundAddress,
+    timelock: options.timelock,
+  };
+
+  const globalOptions = options.parent?.opts() || {};
+  const relayer = await resolveSigner(options, globalOptions.rpcUrl);
+  if (!relayer) {
+    logError('Relayer private key required for refund');
+    process.exit(1);
+  }
+
+  const manager = new ContractManager(options.network, relayer, globalOptions.rpcUrl, parseTransactionOptions(options));
+
+  const spinner = createSpinner('Checking signed refund...').start();
+  const [state, signer] = await Promise.all([
+    manager.getSwapAuthorizationState(bundle),
+    recoverBundleSigner(bundle),
+  ]);
+  spinner.stop();
+
+  console.log(chalk.blue('Swap Refund Details:'));
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+  console.log(`Campaign: ${chalk.green(formatAddress(campaign))}`);
+  console.log(`Contributor: ${chalk.green(formatAddress(bundle.contributor!))}`);
+  console.log(`Relayer: ${chalk.blue(formatAddress(manager.signer!.address))}`);
+  console.log(`Swap Contract: ${chalk.green(formatAddress(bundle.swapContract))}`);
+  console.log(`Refund Amount: ${chalk.yellow(formatEther(BigInt(bundle.amount)))} RBTC`);
+  console.log(`Processing Fee: ${chalk.gray(formatEther(BigInt(bundle.processingFee)))} RBTC`);
+  console.log(`Deadline: ${chalk.gray(formatTime(bundle.deadline))}`);
+
+  const problems = validateSwapBundle(bundle, lockParams, state);
+  if (signer.toLowerCase() !== bundle.contributor!.toLowerCase()) {
+    problems.push(`Signature was made by ${signer}, not the contributor`);
+  }
+
+  if (problems.length > 0) {
+    emitJsonError('Signed refund cannot be submitted', { problems });
+    logError('Signed refund cannot be submitted:');
+    problems.forEach((problem) => console.log(`  - ${problem}`));
+    process.exit(1);
+  }
+
+  if (options.dryRun) {
+    const dryRunSpinner = createSpinner('Simulating refund...').start();
+    const dryRun = await manager.dryRunRefundToSwapContract(bundle, lockParams);
+    dryRunSpinner.stop();
+    reportDryRun(dryRun);
+    return;
+  }
+
+  if (options.unsigned) {
+    const unsignedSpinner = createSpinner('Building unsigned transaction...').start();
+    const unsigned = await manager.buildUnsignedTransactions('refund', [manager.getRefundToSwapContractCall(bundle, lockParams)]);
+    unsignedSpinner.stop();
+    writeUnsignedTransactions(options.unsigned, unsigned);
+    return;
+  }
+
+  if (!options.yes) {
+    const shouldRefund = await confirmAction('\nSubmit refund to swap contract?');
+    if (!shouldRefund) {
+      logInfo('Refund cancelled');
+      return;
+    }
+  }
+
+  const refundSpinner = createSpinner('Submitting refund to swap contract...').start();
+
+  try {
+    const txHash = await manager.refundToSwapContract(bundle, lockParams);
+    refundSpinner.stop();
+    emitJson({
+      campaign,
+      contributor: bundle.contributor,
+      swapContract: bundle.swapContract,
+      transactionHash: txHash,
+      amount: formatEther(BigInt(bundle.amount)),
+      amountWei: bundle.amount,
+      processingFee: formatEther(BigInt(bundle.processingFee)),
+      processingFeeWei: bundle.processingFee,
+    });
+
+    logSuccess('Refund sent to swap contract successfully!');
+    console.log(`Transaction: ${chalk.blue(txHash)}`);
+    console.log(`Locked: ${chalk.green(formatEther(BigInt(bundle.amount)))} RBTC`);
+
+  } catch (refundError) {
+    refundSpinner.stop();
+    logError(`Refund failed: ${formatContractError(refundError)}`);
+    process.exit(1);
+  }
+}
+
 export const refundCommand = new Command('refund')
   .description('Refund your contribution from an AON campaign')
   .argument('<campaign>', 'Campaign contract address')
   .option('-p, --processing-fee <amount>', 'Processing fee in RBTC (optional)', '0')
-  .option('-n, --network <network>', 'Network to use', 'local')
+  .option('--to-swap <bundle>', 'Relay a signed refund bundle (from "aon-cli sign refund") to its swap contract')
+  .option('--claim-address <address>', 'Swap claim address (with --to-swap)')
+  .option('--timelock <value>', 'Swap timelock (with --to-swap)')
+  .option('--lock-function <signature>', 'Swap contract lock function (with --to-swap)', DEFAULT_LOCK_FUNCTION_SIGNATURE)
+  .option('-n, --network <network>', 'Network to use', config.getDefaultNetwork())
   .option('-k, --private-key <key>', 'Private key (or use PRIVATE_KEY env var)')
+  .option('--account <name>', 'Keystore account to sign with (see "aon-cli accounts list")')
+  .option('--account-index <n>', 'HD account index from the configured mnemonic (Anvil dev mnemonic on local)')
+  .option('--signer <spec>', 'External signer: rpc:<url> (remote JSON-RPC signer) or node (node-managed account)')
+  .option('--from <address>', 'Account of the external signer (defaults to its first account), or the sender with --unsigned')
+  .option('--gas-price <gwei>', 'Gas price in gwei (defaults to the node price, at least the block minimum gas price)')
+  .option('--gas-limit <gas>', 'Gas limit (defaults to an estimate)')
+  .option('--nonce <n>', 'Nonce of the first transaction (defaults to the next pending nonce)')
+  .option('--confirmations <n>', 'Confirmations to wait for', '1')
+  .option('--timeout <duration>', 'How long to wait for confirmation (e.g., "5m", "1 hour")', '5m')
+  .option('--unsigned <file>', 'Write the unsigned transaction to a file for offline signing (see "aon-cli tx sign")')
+  .option('--dry-run', 'Simulate the transaction and show the revert reason, gas, cost and balance changes without sending')
   .option('-y, --yes', 'Skip confirmation prompts')
   .action(async (campaign, options) => {
     try {
@@ -28,15 +190,21 @@ export const refundCommand = new Command('refund')
         process.exit(1);
       }
 
+      if (options.toSwap) {
+        await relayRefundToSwap(campaign, options);
+        return;
+      }
+
       const processingFee = validateEthAmount(options.processingFee, true); // Allow zero for processing fees
 
-      const privateKey = options.privateKey || getPrivateKeyFromEnv();
-      if (!privateKey) {
+      const globalOptions = options.parent?.opts() || {};
+      const signer = await resolveSigner(options, globalOptions.rpcUrl);
+      if (!signer) {
         logError('Private key required for refund');
         process.exit(1);
       }
 
-      const manager = new ContractManager(options.network, privateKey);
+      const manager = new ContractManager(options.network, signer, globalOptions.rpcUrl, parseTransactionOptions(options));
       const contributor = manager.signer?.address;
 
       if (!contributor) {
@@ -63,9 +231,7 @@ export const refundCommand = new Command('refund')
         console.log(`Your Contribution: ${chalk.green(contributionInfo.amount)} RBTC`);
         console.log(`Processing Fee: ${chalk.gray(processingFee)} RBTC`);
         console.log(`Refund Amount: ${chalk.yellow(contributionInfo.refundAmount)} RBTC`);
-        console.log(`Campaign Status: ${campaignInfo.status === 0 ? chalk.blue('Active') : 
-                                        campaignInfo.status === 1 ? chalk.yellow('Cancelled') : 
-                                        chalk.green('Claimed')}`);
+        console.log(`Campaign Status: ${formatCampaignStatus(campaignInfo.status)}`);
 
         // Check eligibility
         if (!contributionInfo.canRefund) {
@@ -73,9 +239,9 @@ export const refundCommand = new Command('refund')
           
           if (parseFloat(contributionInfo.amount) === 0) {
             logInfo('No contribution found for this address');
-          } else if (campaignInfo.status === 2) {
+          } else if (campaignInfo.status === CampaignStatus.Claimed) {
             logInfo('Campaign funds have been claimed by creator');
-          } else if (campaignInfo.goalReached && campaignInfo.status === 0) {
+          } else if (campaignInfo.status === CampaignStatus.Successful) {
             logInfo('Campaign goal reached and still active - cannot refund');
           }
           
@@ -87,6 +253,22 @@ export const refundCommand = new Command('refund')
           process.exit(1);
         }
 
+        if (options.dryRun) {
+          const dryRunSpinner = createSpinner('Simulating refund...').start();
+          const dryRun = await manager.dryRunRefund(campaign, processingFee);
+          dryRunSpinner.stop();
+          reportDryRun(dryRun);
+          return;
+        }
+
+        if (options.unsigned) {
+          const unsignedSpinner = createSpinner('Building unsigned transaction...').start();
+          const unsigned = await manager.buildUnsignedTransactions('refund', [manager.getRefundCall(campaign, processingFee)]);
+          unsignedSpinner.stop();
+          writeUnsignedTransactions(options.unsigned, unsigned);
+          return;
+        }
+
         if (!options.yes) {
           const shouldRefund = await confirmAction('\nProceed with refund?');
           if (!shouldRefund) {
@@ -100,6 +282,13 @@ export const refundCommand = new Command('refund')
         try {
           const txHash = await manager.refund(campaign, processingFee);
           refundSpinner.stop();
+          emitJson(withWei({
+            campaign,
+            contributor,
+            transactionHash: txHash,
+            refundAmount: contributionInfo.refundAmount,
+            processingFee,
+          }, ['refundAmount', 'processingFee']));
 
           logSuccess('Refund processed successfully!');
           console.log(`Transaction: ${chalk.blue(txHash)}`);
@@ -107,31 +296,18 @@ export const refundCommand = new Command('refund')
 
         } catch (refundError) {
           refundSpinner.stop();
-          
-          if (refundError instanceof Error) {
-            if (refundError.message.includes('execution reverted')) {
-              logError('Refund rejected by contract');
-              logInfo('Campaign state may have changed since last check');
-            } else if (refundError.message.includes('insufficient funds')) {
-              logError('Contract has insufficient funds for refund');
-            } else {
-              logError(`Refund failed: ${refundError.message}`);
-            }
-          } else {
-            logError(`Refund failed: ${refundError}`);
-          }
-          
+          logError(`Refund failed: ${formatContractError(refundError)}`);
           process.exit(1);
         }
 
       } catch (infoError) {
         spinner.stop();
-        logError(`Failed to check refund eligibility: ${infoError}`);
+        logError(`Failed to check refund eligibility: ${formatContractError(infoError)}`);
         process.exit(1);
       }
 
     } catch (error) {
-      logError(`Refund error: ${error}`);
+      logError(`Refund error: ${formatContractError(error)}`);
       process.exit(1);
     }
   });
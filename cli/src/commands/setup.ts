@@ -1,7 +1,10 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import { config } from '../lib/config';
-import { logSuccess, logError, logInfo, createSpinner } from '../lib/utils';
+import { emitJson, isJsonMode } from '../lib/output';
+import { listKeystoreAccounts } from '../lib/keystore';
+import { ANVIL_MNEMONIC, deriveAccounts, getCoinType } from '../lib/mnemonic';
+import { logSuccess, logError, logInfo, logWarning, createSpinner } from '../lib/utils';
 import { spawn } from 'child_process';
 import { existsSync } from 'fs';
 import { resolve } from 'path';
@@ -22,8 +25,10 @@ export const setupCommand = new Command('setup')
           logSuccess('Configuration initialized successfully');
           logInfo(`Config file created at: ${config.getConfigPath()}`);
           
-          console.log('\nDefault networks configured:');
           const networks = config.listNetworks();
+          emitJson({ configPath: config.getConfigPath(), defaultNetwork: config.getDefaultNetwork(), networks });
+
+          console.log('\nDefault networks configured:');
           Object.entries(networks).forEach(([name, net]) => {
             const isDefault = name === config.getDefaultNetwork();
             console.log(`  ${isDefault ? '→' : ' '} ${chalk.blue(name)}: ${net.rpcUrl} (Chain ID: ${net.chainId})`);
@@ -58,7 +63,8 @@ export const setupCommand = new Command('setup')
           
           await new Promise<void>((resolve, reject) => {
             const dockerProcess = spawn('docker', dockerArgs, {
-              stdio: options.detach ? 'pipe' : 'inherit',
+              // Docker logs go to stderr in JSON mode so stdout stays a single document
+              stdio: options.detach ? 'pipe' : isJsonMode() ? ['inherit', process.stderr, 'inherit'] : 'inherit',
               cwd: process.cwd(),
             });
             
@@ -74,6 +80,7 @@ export const setupCommand = new Command('setup')
           });
           
           spinner.stop();
+          emitJson({ detached: Boolean(options.detach), rpcUrl: 'http://localhost:8545' });
           
           if (options.detach) {
             logSuccess('Local development environment started in detached mode');
@@ -125,7 +132,7 @@ export const setupCommand = new Command('setup')
   .addCommand(
     new Command('status')
       .description('Check status of development environment')
-      .option('-n, --network <network>', 'Network to check status for', 'local')
+      .option('-n, --network <network>', 'Network to check status for', config.getDefaultNetwork())
       .action(async (options) => {
         try {
           const { ContractManager } = await import('../lib/contract');
@@ -146,17 +153,33 @@ export const setupCommand = new Command('setup')
           
           try {
             const accounts = await manager.getAccounts();
+            const factoryAddress = config.getNetworkContract(options.network, 'factory');
+            emitJson({
+              network: network.name,
+              rpcUrl: network.rpcUrl,
+              chainId: network.chainId,
+              accessible: true,
+              accounts: accounts.length,
+              factory: factoryAddress || null,
+            });
             logSuccess(`Node is accessible (${accounts.length} accounts available)`);
             
             // Check for deployed contracts
-            const factoryAddress = config.getNetworkContract(options.network, 'factory');
             if (factoryAddress) {
               logSuccess(`Factory contract deployed at: ${factoryAddress}`);
             } else {
-              logInfo(`No contracts deployed yet. Run: aon-cli deploy${options.network !== 'local' ? ` --network ${options.network}` : ''}`);
+              logInfo(`No contracts deployed yet. Run: aon-cli deploy${options.network !== config.getDefaultNetwork() ? ` --network ${options.network}` : ''}`);
             }
             
           } catch (error) {
+            emitJson({
+              network: network.name,
+              rpcUrl: network.rpcUrl,
+              chainId: network.chainId,
+              accessible: false,
+              accounts: 0,
+              factory: config.getNetworkContract(options.network, 'factory') || null,
+            });
             logError('Node is not accessible');
             if (config.shouldManageAnvil(options.network, globalOptions.rpcUrl)) {
               logInfo('Start the local node with: aon-cli setup start');
@@ -172,7 +195,7 @@ export const setupCommand = new Command('setup')
   )
   .addCommand(
     new Command('env')
-      .description('Show environment configuration and available private keys')
+      .description('Show environment configuration and available signing accounts')
       .action(async () => {
         try {
           console.log(chalk.blue('Environment Configuration:'));
@@ -210,24 +233,53 @@ export const setupCommand = new Command('setup')
           
           const privateKey = process.env.PRIVATE_KEY;
           const rskPrivateKey = process.env.RSK_DEPLOYMENT_PRIVATE_KEY;
+
+          // Only report whether keys are set, never the keys themselves
+          const keystoreAccounts = listKeystoreAccounts();
+
+          emitJson({
+            envFile: envPaths.find((envPath) => fs.existsSync(envPath)) || null,
+            privateKey: Boolean(privateKey),
+            rskDeploymentPrivateKey: Boolean(rskPrivateKey),
+            keystoreAccounts: keystoreAccounts.map(({ name, address }) => ({ name, address })),
+          });
           
           if (privateKey) {
-            console.log(`✅ PRIVATE_KEY: ${chalk.green('Available')} (${privateKey.slice(0, 6)}...${privateKey.slice(-4)})`);
+            console.log(`✅ PRIVATE_KEY: ${chalk.green('Available')}`);
           } else {
             console.log(`❌ PRIVATE_KEY: ${chalk.red('Not set')}`);
           }
           
           if (rskPrivateKey) {
-            console.log(`✅ RSK_DEPLOYMENT_PRIVATE_KEY: ${chalk.green('Available')} (${rskPrivateKey.slice(0, 6)}...${rskPrivateKey.slice(-4)})`);
+            console.log(`✅ RSK_DEPLOYMENT_PRIVATE_KEY: ${chalk.green('Available')}`);
           } else {
             console.log(`❌ RSK_DEPLOYMENT_PRIVATE_KEY: ${chalk.red('Not set')}`);
           }
           
+          console.log('');
+          console.log(chalk.blue('Keystore Accounts:'));
+          console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+
+          if (keystoreAccounts.length > 0) {
+            keystoreAccounts.forEach((account) => console.log(`✅ ${chalk.blue(account.name)}: ${chalk.green(account.address)}`));
+          } else {
+            console.log(`❌ No keystore accounts (${chalk.gray(config.getKeystoreDir())})`);
+          }
+
+          if (privateKey || rskPrivateKey) {
+            logWarning('Raw private keys in environment variables are not recommended on mainnet');
+            logInfo('Move them to an encrypted keystore with: aon-cli accounts import <name>');
+          }
+
           console.log('');
           console.log(chalk.blue('Usage:'));
           console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
           
-          if (privateKey || rskPrivateKey) {
+          if (keystoreAccounts.length > 0) {
+            console.log('Sign with a keystore account (password prompted, or set AON_KEYSTORE_PASSWORD):');
+            console.log(`  ${chalk.green(`aon-cli deploy --account ${keystoreAccounts[0].name}`)}`);
+            console.log(`  ${chalk.green(`aon-cli contribute CAMPAIGN_ADDRESS --amount "1" --account ${keystoreAccounts[0].name}`)}`);
+          } else if (privateKey || rskPrivateKey) {
             console.log('With environment variables set, you can run commands without --private-key:');
             console.log(`  ${chalk.green('aon-cli deploy')}`);
             console.log(`  ${chalk.green('aon-cli campaign create --creator 0x... --goal "10" --duration "30 days"')}`);
@@ -245,12 +297,12 @@ export const setupCommand = new Command('setup')
           console.log('');
           console.log(chalk.blue('Default Anvil Accounts:'));
           console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-          console.log('Account 0 (10,000 RBTC):');
-          console.log(`  Address: ${chalk.green('0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266')}`);
-          console.log(`  Private: ${chalk.gray('0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80')}`);
-          console.log('Account 1 (10,000 RBTC):');
-          console.log(`  Address: ${chalk.green('0x70997970C51812dc3A010C7d01b50e0d17dc79C8')}`);
-          console.log(`  Private: ${chalk.gray('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d')}`);
+          console.log(chalk.gray(`Derived from "${ANVIL_MNEMONIC}", use them with --account-index <n>`));
+          deriveAccounts(ANVIL_MNEMONIC, getCoinType('ethereum', 31337), 0, 2).forEach((account) => {
+            console.log(`Account ${account.index} (10,000 RBTC):`);
+            console.log(`  Address: ${chalk.green(account.address)}`);
+            console.log(`  Private: ${chalk.gray(account.privateKey)}`);
+          });
           
         } catch (error) {
           logError(`Failed to show environment info: ${error}`);
@@ -0,0 +1,128 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { writeFileSync } from 'fs';
+import { formatEther, isHex, size } from 'viem';
+import { ContractManager } from '../lib/contract';
+import { resolveSigner } from '../lib/signer';
+import { config } from '../lib/config';
+import { formatContractError } from '../lib/errors';
+import { emitJson } from '../lib/output';
+import {
+  logSuccess,
+  logError,
+  logInfo,
+  createSpinner,
+  validateEthAmount,
+  isValidEthereumAddress,
+  isZeroAddress,
+  parseTimeInput,
+  formatAddress,
+  formatTime
+} from '../lib/utils';
+
+function createSignCommand(type: 'refund' | 'claim') {
+  const signer = type === 'refund' ? 'contributor' : 'creator';
+
+  return new Command(type)
+    .description(
+      type === 'refund'
+        ? 'Sign a refund authorization routing your contribution to a swap contract'
+        : 'Sign a claim authorization routing the campaign funds to a swap contract (creator only)'
+    )
+    .argument('<campaign>', 'Campaign contract address')
+    .requiredOption('-s, --swap-contract <address>', 'Swap contract that will receive the funds')
+    .requiredOption('--preimage-hash <hash>', 'Preimage hash (bytes32) locking the swap')
+    .requiredOption('--refund-address <address>', 'Address that can refund the swap after its timelock')
+    .option('-p, --processing-fee <amount>', 'Processing fee in RBTC (optional)', '0')
+    .option('-d, --deadline <duration>', 'Signature validity from now (e.g., "1 hour", "30m")', '1 hour')
+    .option('-o, --output <file>', 'Write the signature bundle to a file instead of stdout')
+    .option('-n, --network <network>', 'Network to use', config.getDefaultNetwork())
+    .option('-k, --private-key <key>', `Private key of the ${signer} (or use PRIVATE_KEY env var)`)
+    .option('--account <name>', 'Keystore account to sign with (see "aon-cli accounts list")')
+    .option('--account-index <n>', 'HD account index from the configured mnemonic (Anvil dev mnemonic on local)')
+    .option('--signer <spec>', 'External signer: rpc:<url> (remote JSON-RPC signer) or node (node-managed account)')
+    .option('--from <address>', 'Account of the external signer (defaults to its first account)')
+    .action(async (campaign, options) => {
+      try {
+        // Validate inputs
+        if (!isValidEthereumAddress(campaign)) {
+          logError('Invalid campaign address');
+          process.exit(1);
+        }
+
+        if (!isValidEthereumAddress(options.swapContract) || isZeroAddress(options.swapContract)) {
+          logError('Invalid swap contract address');
+          process.exit(1);
+        }
+
+        if (!isValidEthereumAddress(options.refundAddress) || isZeroAddress(options.refundAddress)) {
+          logError('Invalid refund address');
+          process.exit(1);
+        }
+
+        if (!isHex(options.preimageHash) || size(options.preimageHash) !== 32) {
+          logError('Preimage hash must be a 0x-prefixed 32-byte hex string');
+          process.exit(1);
+        }
+
+        const processingFee = validateEthAmount(options.processingFee, true); // Allow zero for processing fees
+        const deadline = Math.floor(Date.now() / 1000) + parseTimeInput(options.deadline);
+
+        const globalOptions = options.parent?.parent?.opts() || {};
+        const signer = await resolveSigner(options, globalOptions.rpcUrl);
+        if (!signer) {
+          logError(`Private key required for signing the ${type}`);
+          process.exit(1);
+        }
+
+        const manager = new ContractManager(options.network, signer, globalOptions.rpcUrl);
+
+        const spinner = createSpinner(`Signing ${type} authorization...`).start();
+
+        const params = {
+          swapContract: options.swapContract,
+          deadline,
+          processingFeeInEther: processingFee,
+          preimageHash: options.preimageHash,
+          refundAddress: options.refundAddress,
+        };
+        const bundle = type === 'refund'
+          ? await manager.signRefund(campaign, params)
+          : await manager.signClaim(campaign, params);
+
+        spinner.stop();
+
+        const json = JSON.stringify(bundle, null, 2);
+        emitJson(bundle);
+
+        if (!options.output) {
+          console.log(json);
+          return;
+        }
+
+        writeFileSync(options.output, json + '\n', 'utf8');
+
+        console.log(chalk.blue('Signature Details:'));
+        console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+        console.log(`Campaign: ${chalk.green(formatAddress(bundle.campaign))}`);
+        console.log(`Signer: ${chalk.blue(formatAddress((bundle.contributor || bundle.creator)!))}`);
+        console.log(`Swap Contract: ${chalk.green(formatAddress(bundle.swapContract))}`);
+        console.log(`Amount: ${chalk.yellow(formatEther(BigInt(bundle.amount)))} RBTC`);
+        console.log(`Processing Fee: ${chalk.gray(formatEther(BigInt(bundle.processingFee)))} RBTC`);
+        console.log(`Nonce: ${chalk.gray(bundle.nonce)}`);
+        console.log(`Deadline: ${chalk.gray(formatTime(bundle.deadline))}`);
+
+        logSuccess(`Signature bundle written to ${options.output}`);
+        logInfo('The signature is only valid while the nonce and on-chain amount are unchanged');
+
+      } catch (error) {
+        logError(`Failed to sign ${type}: ${formatContractError(error)}`);
+        process.exit(1);
+      }
+    });
+}
+
+export const signCommand = new Command('sign')
+  .description('Sign EIP-712 swap authorizations for relayers')
+  .addCommand(createSignCommand('refund'))
+  .addCommand(createSignCommand('claim'));
@@ -0,0 +1,240 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { table } from 'table';
+import { ContractManager } from '../lib/contract';
+import { resolveSigner } from '../lib/signer';
+import { config } from '../lib/config';
+import { formatContractError } from '../lib/errors';
+import { writeUnsignedTransactions } from '../lib/offline';
+import { emitJson, emitJsonError, withWei } from '../lib/output';
+import {
+  logSuccess,
+  logError,
+  logInfo,
+  logWarning,
+  createSpinner,
+  isValidEthereumAddress,
+  confirmAction,
+  formatAddress,
+  formatTime,
+  parseTransactionOptions
+} from '../lib/utils';
+import { SwipePreview } from '../types';
+
+export const swipeCommand = new Command('swipe')
+  .description('Swipe leftover funds from campaigns past their claim and refund windows (factory owner)')
+  .argument('[campaign]', 'Campaign contract address')
+  .option('--all', 'Scan every factory campaign for swipeable funds')
+  .option('--from-block <block>', 'Block to start scanning factory events from (with --all)', '0')
+  .option('--chunk-size <blocks>', 'Number of blocks per log query (with --all)', '2000')
+  .option('-n, --network <network>', 'Network to use', config.getDefaultNetwork())
+  .option('-k, --private-key <key>', 'Private key (or use PRIVATE_KEY env var)')
+  .option('--account <name>', 'Keystore account to sign with (see "aon-cli accounts list")')
+  .option('--account-index <n>', 'HD account index from the configured mnemonic (Anvil dev mnemonic on local)')
+  .option('--signer <spec>', 'External signer: rpc:<url> (remote JSON-RPC signer) or node (node-managed account)')
+  .option('--from <address>', 'Account of the external signer (defaults to its first account), or the sender with --unsigned')
+  .option('--gas-price <gwei>', 'Gas price in gwei (defaults to the node price, at least the block minimum gas price)')
+  .option('--gas-limit <gas>', 'Gas limit (defaults to an estimate)')
+  .option('--nonce <n>', 'Nonce of the first transaction (defaults to the next pending nonce)')
+  .option('--confirmations <n>', 'Confirmations to wait for', '1')
+  .option('--timeout <duration>', 'How long to wait for confirmation (e.g., "5m", "1 hour")', '5m')
+  .option('--unsigned <file>', 'Write the unsigned transaction to a file for offline signing (see "aon-cli tx sign")')
+  .option('-y, --yes', 'Skip confirmation prompts')
+  .action(async (campaign, options) => {
+    try {
+      // Validate inputs
+      if (!campaign && !options.all) {
+        logError('Provide a campaign address or use --all');
+        process.exit(1);
+      }
+
+      if (campaign && options.all) {
+        logError('Use either a campaign address or --all, not both');
+        process.exit(1);
+      }
+
+      if (campaign && !isValidEthereumAddress(campaign)) {
+        logError('Invalid campaign address');
+        process.exit(1);
+      }
+
+      const globalOptions = options.parent?.opts() || {};
+      const signer = await resolveSigner(options, globalOptions.rpcUrl);
+      if (!signer) {
+        logError('Private key required for swiping funds');
+        process.exit(1);
+      }
+
+      const manager = new ContractManager(options.network, signer, globalOptions.rpcUrl, parseTransactionOptions(options));
+
+      const spinner = createSpinner('Fetching factory information...').start();
+      const factoryInfo = await manager.getFactoryInfo();
+
+      let campaigns: string[] = [campaign];
+      if (options.all) {
+        spinner.text = 'Scanning factory events...';
+        const created = await manager.getCreatedCampaigns(
+          BigInt(options.fromBlock),
+          BigInt(options.chunkSize),
+          (scannedBlock, latestBlock) => {
+            spinner.text = `Scanning factory events... (block ${scannedBlock}/${latestBlock})`;
+          }
+        );
+        campaigns = created.map((entry) => entry.address);
+      }
+
+      // Preview in small batches to avoid hammering public nodes. A campaign whose state cannot
+      // be read is reported instead of aborting the scan.
+      const previews: SwipePreview[] = [];
+      const unreadable: { campaign: string; error: string }[] = [];
+      for (let i = 0; i < campaigns.length; i += 10) {
+        spinner.text = `Checking swipe eligibility... (${i}/${campaigns.length})`;
+        const batch = await Promise.all(campaigns.slice(i, i + 10).map((address) =>
+          manager.getSwipePreview(address).catch((previewError) => {
+            unreadable.push({ campaign: address, error: formatContractError(previewError) });
+            return undefined;
+          })
+        ));
+        previews.push(...batch.filter((preview): preview is SwipePreview => preview !== undefined));
+      }
+
+      spinner.stop();
+
+      if (campaign && unreadable.length > 0) {
+        emitJsonError(`Could not read campaign: ${unreadable[0].error}`, { campaign, unreadable });
+        logError(`Could not read campaign: ${unreadable[0].error}`);
+        process.exit(1);
+      }
+
+      console.log(chalk.blue('Swipe Configuration:'));
+      console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+      console.log(`Factory: ${chalk.green(factoryInfo.address)}`);
+      console.log(`Fee Recipient: ${chalk.green(factoryInfo.feeRecipient)}`);
+      console.log(`Swipe Recipient: ${chalk.green(factoryInfo.swipeRecipient)}`);
+      console.log(`Sender: ${chalk.blue(manager.signer!.address)}`);
+
+      if (factoryInfo.owner.toLowerCase() !== manager.signer!.address.toLowerCase()) {
+        logWarning(`Sender is not the factory owner (${formatAddress(factoryInfo.owner)})`);
+      }
+
+      const eligible = previews.filter((preview) => preview.eligible);
+      const reverting = previews.filter((preview) => preview.feesExceedBalance);
+
+      for (const preview of reverting) {
+        logWarning(`swipeFunds would revert on ${preview.campaign}: recorded fees of ${preview.feeRecipientAmount} RBTC exceed its ${preview.balance} RBTC balance`);
+      }
+
+      for (const entry of unreadable) {
+        logWarning(`Could not read ${entry.campaign}, skipped: ${entry.error}`);
+      }
+
+      if (eligible.length === 0) {
+        emitJson({ factory: factoryInfo, checked: previews.length, previews, unreadable, results: [] });
+        console.log('');
+        if (campaign) {
+          const [preview] = previews;
+          if (parseFloat(preview.balance) === 0) {
+            logInfo('Campaign has no funds to swipe');
+          } else if (preview.feesExceedBalance) {
+            logInfo('Campaign cannot be swiped while its recorded fees exceed its balance');
+          } else {
+            logInfo(`Campaign becomes swipeable after ${formatTime(preview.eligibleAt)}`);
+          }
+        } else {
+          logInfo(`No swipeable campaigns found (${previews.length} checked${unreadable.length > 0 ? `, ${unreadable.length} unreadable` : ''})`);
+        }
+        return;
+      }
+
+      const previewData = [
+        ['Campaign', 'Balance (RBTC)', 'Fee Recipient (RBTC)', 'Swipe Recipient (RBTC)', 'Unclaimed'],
+        ...eligible.map((preview) => [
+          chalk.green(preview.campaign),
+          preview.balance,
+          preview.feeRecipientAmount,
+          preview.swipeRecipientAmount,
+          preview.isUnclaimed ? chalk.yellow('Yes') : 'No',
+        ]),
+      ];
+
+      console.log('');
+      console.log(table(previewData));
+      console.log(`Swipeable campaigns: ${chalk.blue(eligible.length)} of ${previews.length}`);
+
+      if (options.unsigned) {
+        const unsignedSpinner = createSpinner('Building unsigned transactions...').start();
+        const unsigned = await manager.buildUnsignedTransactions(
+          'swipe',
+          eligible.map((preview) => manager.getSwipeFundsCall(preview.campaign))
+        );
+        unsignedSpinner.stop();
+        writeUnsignedTransactions(options.unsigned, unsigned);
+        return;
+      }
+
+      if (!options.yes) {
+        const shouldSwipe = await confirmAction(`\nSwipe funds from ${eligible.length} campaign(s)?`);
+        if (!shouldSwipe) {
+          logInfo('Swipe cancelled');
+          return;
+        }
+      }
+
+      // Sequential sends keep nonces ordered
+      const results: string[][] = [];
+      const swipes: Record<string, unknown>[] = [];
+      let failures = 0;
+      for (const preview of eligible) {
+        const swipeSpinner = createSpinner(`Swiping ${formatAddress(preview.campaign)}...`).start();
+        try {
+          const result = await manager.swipeFunds(preview.campaign);
+          swipeSpinner.stop();
+          swipes.push({ campaign: preview.campaign, ok: true, ...withWei(result, ['feeRecipientAmount', 'recipientAmount']) });
+          results.push([
+            chalk.green(preview.campaign),
+            chalk.green('✓'),
+            result.feeRecipientAmount,
+            result.recipientAmount,
+            result.hash,
+          ]);
+        } catch (swipeError) {
+          swipeSpinner.stop();
+          failures++;
+          swipes.push({
+            campaign: preview.campaign,
+            ok: false,
+            error: formatContractError(swipeError),
+          });
+          results.push([
+            chalk.green(preview.campaign),
+            chalk.red('✗'),
+            '-',
+            '-',
+            formatContractError(swipeError),
+          ]);
+        }
+      }
+
+      const summary = { factory: factoryInfo, checked: previews.length, previews: eligible, unreadable, results: swipes };
+
+      console.log(table([
+        ['Campaign', 'Result', 'Fee Recipient (RBTC)', 'Swipe Recipient (RBTC)', 'Transaction / Error'],
+        ...results,
+      ], {
+        columns: { 4: { width: 66, wrapWord: true } },
+      }));
+
+      if (failures > 0) {
+        emitJsonError(`${failures} of ${eligible.length} swipe(s) failed`, summary);
+        logError(`${failures} of ${eligible.length} swipe(s) failed`);
+        process.exit(1);
+      }
+
+      emitJson(summary);
+      logSuccess(`Swiped funds from ${eligible.length} campaign(s)`);
+
+    } catch (error) {
+      logError(`Swipe error: ${formatContractError(error)}`);
+      process.exit(1);
+    }
+  });
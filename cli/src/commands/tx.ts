@@ -0,0 +1,248 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { writeFileSync } from 'fs';
+import { table } from 'table';
+import { formatGwei, parseTransaction, type Hex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { ContractManager } from '../lib/contract';
+import { resolvePrivateKey, resolveSigner } from '../lib/signer';
+import { config } from '../lib/config';
+import { formatContractError } from '../lib/errors';
+import { printUnsignedTransactions, readSignedTransactions, readUnsignedTransactions, signTransactions } from '../lib/offline';
+import { emitJson, emitJsonError } from '../lib/output';
+import {
+  logSuccess,
+  logError,
+  logInfo,
+  createSpinner,
+  confirmAction,
+  parseTransactionOptions
+} from '../lib/utils';
+import { BroadcastResult } from '../types';
+
+function createReplaceCommand(mode: 'speedup' | 'cancel') {
+  const action = mode === 'speedup' ? 'Speed-up' : 'Cancellation';
+
+  return new Command(mode)
+    .description(
+      mode === 'speedup'
+        ? 'Resend a pending transaction with the same nonce and a higher gas price'
+        : 'Replace a pending transaction with an empty transfer to yourself, using the same nonce'
+    )
+    .argument('<hash>', 'Hash of the pending transaction')
+    .option('--bump <percent>', 'Gas price increase over the pending transaction (RSK nodes require 40% by default)', '40')
+    .option('-n, --network <network>', 'Network to use', config.getDefaultNetwork())
+    .option('-k, --private-key <key>', 'Private key of the original sender (or use PRIVATE_KEY env var)')
+    .option('--account <name>', 'Keystore account to sign with (see "aon-cli accounts list")')
+    .option('--account-index <n>', 'HD account index from the configured mnemonic (Anvil dev mnemonic on local)')
+    .option('--signer <spec>', 'External signer: rpc:<url> (remote JSON-RPC signer) or node (node-managed account)')
+    .option('--from <address>', 'Account of the external signer (defaults to its first account)')
+    .option('--gas-price <gwei>', 'Gas price in gwei (overrides --bump)')
+    .option('--gas-limit <gas>', 'Gas limit (speedup only, defaults to the pending transaction\'s)')
+    .option('--confirmations <n>', 'Confirmations to wait for', '1')
+    .option('--timeout <duration>', 'How long to wait for confirmation (e.g., "5m", "1 hour")', '5m')
+    .option('-y, --yes', 'Skip confirmation prompts')
+    .action(async (hash, options) => {
+      try {
+        // Validate inputs
+        if (!/^0x[0-9a-fA-F]{64}$/.test(hash)) {
+          logError('Invalid transaction hash');
+          process.exit(1);
+        }
+
+        const bump = Number(options.bump);
+        if (!Number.isInteger(bump) || bump <= 0) {
+          logError('Gas price bump must be a positive integer percentage');
+          process.exit(1);
+        }
+
+        const globalOptions = options.parent?.parent?.opts() || {};
+        const signer = await resolveSigner(options, globalOptions.rpcUrl);
+        if (!signer) {
+          logError('Private key of the original sender required');
+          process.exit(1);
+        }
+
+        const manager = new ContractManager(options.network, signer, globalOptions.rpcUrl, parseTransactionOptions(options));
+
+        console.log(chalk.blue(`Transaction ${action}:`));
+        console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+        console.log(`Transaction: ${chalk.green(hash)}`);
+        console.log(`Sender: ${chalk.blue(signer.address)}`);
+        console.log(`Gas Price: ${options.gasPrice ? `${chalk.yellow(options.gasPrice)} gwei` : chalk.yellow(`+${bump}%`)}`);
+
+        if (!options.yes) {
+          const shouldReplace = await confirmAction(`\nProceed with ${mode}?`);
+          if (!shouldReplace) {
+            logInfo(`${action} cancelled`);
+            return;
+          }
+        }
+
+        const spinner = createSpinner('Sending replacement transaction...').start();
+
+        try {
+          const result = await manager.replaceTransaction(hash, mode, bump);
+          spinner.stop();
+
+          emitJson(result);
+
+          if (result.hash.toLowerCase() === hash.toLowerCase()) {
+            logInfo('The original transaction was mined before its replacement');
+          } else {
+            logSuccess(mode === 'speedup' ? 'Transaction sped up successfully!' : 'Transaction cancelled successfully!');
+          }
+
+          console.log(`Transaction: ${chalk.blue(result.hash)}`);
+          console.log(`Nonce: ${chalk.gray(result.nonce)}`);
+          console.log(`Gas Price: ${chalk.gray(formatGwei(BigInt(result.previousGasPrice)))} → ${chalk.yellow(formatGwei(BigInt(result.gasPrice)))} gwei`);
+          console.log(`Block: ${chalk.gray(result.blockNumber)}`);
+
+        } catch (replaceError) {
+          spinner.stop();
+          logError(`${action} failed: ${formatContractError(replaceError)}`);
+          process.exit(1);
+        }
+
+      } catch (error) {
+        logError(`${action} error: ${formatContractError(error)}`);
+        process.exit(1);
+      }
+    });
+}
+
+const signCommand = new Command('sign')
+  .description('Sign transactions built with --unsigned, without any network access')
+  .argument('<file>', 'Unsigned transaction file')
+  .option('-o, --output <file>', 'Write the signed transactions to a file instead of stdout')
+  .option('-k, --private-key <key>', 'Private key of the sender (or use PRIVATE_KEY env var)')
+  .option('--account <name>', 'Keystore account to sign with (see "aon-cli accounts list")')
+  .option('--account-index <n>', 'HD account index from the configured mnemonic (Anvil dev mnemonic on local)')
+  .option('-y, --yes', 'Skip confirmation prompts')
+  .action(async (file, options) => {
+    try {
+      const unsigned = readUnsignedTransactions(file);
+
+      console.log(chalk.blue('Transactions to Sign:'));
+      console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+      printUnsignedTransactions(unsigned);
+
+      // The network only selects the HD coin type, nothing is requested from it
+      const privateKey = await resolvePrivateKey({ ...options, network: unsigned.network });
+      if (!privateKey) {
+        logError('Private key of the sender required for signing');
+        process.exit(1);
+      }
+
+      if (!options.yes) {
+        const shouldSign = await confirmAction(`\nSign ${unsigned.transactions.length} transaction(s)?`);
+        if (!shouldSign) {
+          logInfo('Signing cancelled');
+          return;
+        }
+      }
+
+      const account = privateKeyToAccount(`0x${privateKey.replace('0x', '')}` as Hex);
+      const signed = await signTransactions(unsigned, account);
+
+      const json = JSON.stringify(signed, null, 2);
+      emitJson(signed);
+
+      if (!options.output) {
+        console.log(json);
+        return;
+      }
+
+      writeFileSync(options.output, json + '\n', 'utf8');
+      logSuccess(`Signed transactions written to ${options.output}`);
+      logInfo(`Broadcast from an online machine with: aon-cli tx broadcast ${options.output}`);
+
+    } catch (error) {
+      logError(`Failed to sign transactions: ${formatContractError(error)}`);
+      process.exit(1);
+    }
+  });
+
+const broadcastCommand = new Command('broadcast')
+  .description('Submit signed transactions from "aon-cli tx sign" and wait for their receipts')
+  .argument('<file>', 'Signed transaction file')
+  .option('-n, --network <network>', 'Network to use (defaults to the network the transactions were built for)')
+  .option('--confirmations <n>', 'Confirmations to wait for', '1')
+  .option('--timeout <duration>', 'How long to wait for each confirmation (e.g., "5m", "1 hour")', '5m')
+  .option('-y, --yes', 'Skip confirmation prompts')
+  .action(async (file, options) => {
+    try {
+      const signed = readSignedTransactions(file);
+      const network = options.network || signed.network;
+
+      const globalOptions = options.parent?.parent?.opts() || {};
+      const manager = new ContractManager(network, undefined, globalOptions.rpcUrl, parseTransactionOptions(options));
+
+      const chainId = await manager.getChainId();
+      const transactions = signed.transactions.map((transaction) => ({
+        ...transaction,
+        ...parseTransaction(transaction.serialized as Hex),
+      }));
+
+      const mismatch = transactions.find((transaction) => transaction.chainId !== chainId);
+      if (mismatch) {
+        logError(`"${mismatch.label}" was signed for chain ${mismatch.chainId}, but ${network} is chain ${chainId}`);
+        process.exit(1);
+      }
+
+      console.log(chalk.blue('Transactions to Broadcast:'));
+      console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+      console.log(`Action: ${chalk.green(signed.action)}`);
+      console.log(`Network: ${chalk.green(network)} (chain ${chainId})`);
+      console.log(`From: ${chalk.blue(signed.from)}`);
+      console.log(table([
+        ['Transaction', 'Nonce', 'Hash'],
+        ...transactions.map((transaction) => [transaction.label, transaction.nonce, transaction.hash]),
+      ]));
+
+      if (!options.yes) {
+        const shouldBroadcast = await confirmAction(`Broadcast ${transactions.length} transaction(s)?`);
+        if (!shouldBroadcast) {
+          logInfo('Broadcast cancelled');
+          return;
+        }
+      }
+
+      // Sequential, every transaction has to be mined before the next nonce is sent
+      const results: (BroadcastResult & { label: string })[] = [];
+      for (const [index, transaction] of transactions.entries()) {
+        const spinner = createSpinner(`Broadcasting ${transaction.label} (${index + 1}/${transactions.length})...`).start();
+        try {
+          results.push({ label: transaction.label, ...await manager.broadcastTransaction(transaction.serialized as Hex) });
+          spinner.stop();
+        } catch (broadcastError) {
+          spinner.stop();
+          emitJsonError(`Broadcast of "${transaction.label}" failed: ${formatContractError(broadcastError)}`, { results });
+          logError(`Broadcast of "${transaction.label}" failed: ${formatContractError(broadcastError)}`);
+          if (index > 0) {
+            logInfo(`${index} of ${transactions.length} transaction(s) were mined before the failure`);
+          }
+          process.exit(1);
+        }
+      }
+
+      emitJson({ action: signed.action, network, from: signed.from, results });
+
+      logSuccess(`Broadcast ${results.length} transaction(s) successfully!`);
+      console.log(table([
+        ['Transaction', 'Hash', 'Block', 'Contract'],
+        ...results.map((result) => [result.label, result.hash, result.blockNumber, result.contractAddress ?? '-']),
+      ]));
+
+    } catch (error) {
+      logError(`Failed to broadcast transactions: ${formatContractError(error)}`);
+      process.exit(1);
+    }
+  });
+
+export const txCommand = new Command('tx')
+  .description('Manage pending transactions and the offline signing workflow')
+  .addCommand(createReplaceCommand('speedup'))
+  .addCommand(createReplaceCommand('cancel'))
+  .addCommand(signCommand)
+  .addCommand(broadcastCommand);
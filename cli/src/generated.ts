@@ -0,0 +1,726 @@
+//////////////////////////////////////////////////////////////////////////////////////////////////
+// Aon
+//////////////////////////////////////////////////////////////////////////////////////////////////
+
+export const aonAbi = [
+  { type: 'constructor', inputs: [], stateMutability: 'nonpayable' },
+  {
+    type: 'function',
+    inputs: [],
+    name: 'VERSION',
+    outputs: [{ name: '', internalType: 'uint8', type: 'uint8' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    inputs: [],
+    name: 'canCancel',
+    outputs: [{ name: '', internalType: 'bool', type: 'bool' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    inputs: [{ name: '_address', internalType: 'address', type: 'address' }],
+    name: 'canClaim',
+    outputs: [{ name: '', internalType: 'uint256', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    inputs: [],
+    name: 'cancel',
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    inputs: [
+      { name: 'processingFee', internalType: 'uint256', type: 'uint256' },
+    ],
+    name: 'claim',
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    inputs: [
+      {
+        name: 'swapContract',
+        internalType: 'contract ISwapHTLC',
+        type: 'address',
+      },
+      { name: 'deadline', internalType: 'uint256', type: 'uint256' },
+      { name: 'signature', internalType: 'bytes', type: 'bytes' },
+      { name: 'processingFee', internalType: 'uint256', type: 'uint256' },
+      {
+        name: 'lockParams',
+        internalType: 'struct Aon.SwapContractLockParams',
+        type: 'tuple',
+        components: [
+          { name: 'functionSignature', internalType: 'string', type: 'string' },
+          { name: 'preimageHash', internalType: 'bytes32', type: 'bytes32' },
+          { name: 'claimAddress', internalType: 'address', type: 'address' },
+          { name: 'refundAddress', internalType: 'address', type: 'address' },
+          { name: 'timelock', internalType: 'uint256', type: 'uint256' },
+        ],
+      },
+    ],
+    name: 'claimToSwapContract',
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    inputs: [],
+    name: 'claimWindow',
+    outputs: [{ name: '', internalType: 'uint32', type: 'uint32' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    inputs: [],
+    name: 'claimableBalance',
+    outputs: [{ name: '', internalType: 'uint256', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    inputs: [
+      { name: 'fee', internalType: 'uint256', type: 'uint256' },
+      { name: 'tip', internalType: 'uint256', type: 'uint256' },
+    ],
+    name: 'contribute',
+    outputs: [],
+    stateMutability: 'payable',
+  },
+  {
+    type: 'function',
+    inputs: [
+      { name: 'contributor', internalType: 'address', type: 'address' },
+      { name: 'creatorFee', internalType: 'uint256', type: 'uint256' },
+      { name: 'contributorFee', internalType: 'uint256', type: 'uint256' },
+    ],
+    name: 'contributeFor',
+    outputs: [],
+    stateMutability: 'payable',
+  },
+  {
+    type: 'function',
+    inputs: [{ name: '', internalType: 'address', type: 'address' }],
+    name: 'contributions',
+    outputs: [{ name: '', internalType: 'uint256', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    inputs: [],
+    name: 'creator',
+    outputs: [{ name: '', internalType: 'address payable', type: 'address' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    inputs: [],
+    name: 'domainSeparator',
+    outputs: [{ name: '', internalType: 'bytes32', type: 'bytes32' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    inputs: [],
+    name: 'endTime',
+    outputs: [{ name: '', internalType: 'uint256', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    inputs: [],
+    name: 'factory',
+    outputs: [{ name: '', internalType: 'contract IFactory', type: 'address' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    inputs: [],
+    name: 'getGoalInfo',
+    outputs: [
+      { name: 'currentBalance', internalType: 'uint256', type: 'uint256' },
+      { name: 'targetGoal', internalType: 'uint256', type: 'uint256' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    inputs: [{ name: '_address', internalType: 'address', type: 'address' }],
+    name: 'getNonce',
+    outputs: [{ name: '', internalType: 'uint256', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    inputs: [
+      { name: 'contributor', internalType: 'address', type: 'address' },
+      { name: 'processingFee', internalType: 'uint256', type: 'uint256' },
+    ],
+    name: 'getRefundAmount',
+    outputs: [{ name: '', internalType: 'uint256', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    inputs: [],
+    name: 'getStatus',
+    outputs: [{ name: '', internalType: 'enum Aon.Status', type: 'uint8' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    inputs: [],
+    name: 'goal',
+    outputs: [{ name: '', internalType: 'uint256', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    inputs: [],
+    name: 'goalBalance',
+    outputs: [{ name: '', internalType: 'uint256', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    inputs: [],
+    name: 'goalReachedStrategy',
+    outputs: [
+      { name: '', internalType: 'contract IAonGoalReached', type: 'address' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    inputs: [
+      { name: '_creator', internalType: 'address payable', type: 'address' },
+      { name: '_goal', internalType: 'uint256', type: 'uint256' },
+      { name: '_durationInSeconds', internalType: 'uint32', type: 'uint32' },
+      {
+        name: '_goalReachedStrategy',
+        internalType: 'address',
+        type: 'address',
+      },
+      { name: '_claimWindow', internalType: 'uint32', type: 'uint32' },
+      { name: '_refundWindow', internalType: 'uint32', type: 'uint32' },
+    ],
+    name: 'initialize',
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    inputs: [],
+    name: 'isUnclaimed',
+    outputs: [{ name: '', internalType: 'bool', type: 'bool' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    inputs: [
+      { name: '_amount', internalType: 'uint256', type: 'uint256' },
+      { name: '_contributorFee', internalType: 'uint256', type: 'uint256' },
+    ],
+    name: 'isValidContribution',
+    outputs: [],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    inputs: [],
+    name: 'isValidSwipe',
+    outputs: [],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    inputs: [{ name: 'owner', internalType: 'address', type: 'address' }],
+    name: 'nonces',
+    outputs: [{ name: '', internalType: 'uint256', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    inputs: [
+      { name: 'processingFee', internalType: 'uint256', type: 'uint256' },
+    ],
+    name: 'refund',
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    inputs: [
+      { name: 'contributor', internalType: 'address', type: 'address' },
+      {
+        name: 'swapContract',
+        internalType: 'contract ISwapHTLC',
+        type: 'address',
+      },
+      { name: 'deadline', internalType: 'uint256', type: 'uint256' },
+      { name: 'signature', internalType: 'bytes', type: 'bytes' },
+      { name: 'processingFee', internalType: 'uint256', type: 'uint256' },
+      {
+        name: 'lockParams',
+        internalType: 'struct Aon.SwapContractLockParams',
+        type: 'tuple',
+        components: [
+          { name: 'functionSignature', internalType: 'string', type: 'string' },
+          { name: 'preimageHash', internalType: 'bytes32', type: 'bytes32' },
+          { name: 'claimAddress', internalType: 'address', type: 'address' },
+          { name: 'refundAddress', internalType: 'address', type: 'address' },
+          { name: 'timelock', internalType: 'uint256', type: 'uint256' },
+        ],
+      },
+    ],
+    name: 'refundToSwapContract',
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    inputs: [],
+    name: 'refundWindow',
+    outputs: [{ name: '', internalType: 'uint32', type: 'uint32' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    inputs: [],
+    name: 'status',
+    outputs: [{ name: '', internalType: 'enum Aon.Status', type: 'uint8' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    inputs: [],
+    name: 'swipeFunds',
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    inputs: [],
+    name: 'totalContributorFee',
+    outputs: [{ name: '', internalType: 'uint256', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    inputs: [],
+    name: 'totalCreatorFee',
+    outputs: [{ name: '', internalType: 'uint256', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  { type: 'event', anonymous: false, inputs: [], name: 'Cancelled' },
+  {
+    type: 'event',
+    anonymous: false,
+    inputs: [
+      {
+        name: 'creatorAmount',
+        internalType: 'uint256',
+        type: 'uint256',
+        indexed: false,
+      },
+      {
+        name: 'creatorFeeAmount',
+        internalType: 'uint256',
+        type: 'uint256',
+        indexed: false,
+      },
+      {
+        name: 'contributorFeeAmount',
+        internalType: 'uint256',
+        type: 'uint256',
+        indexed: false,
+      },
+    ],
+    name: 'Claimed',
+  },
+  {
+    type: 'event',
+    anonymous: false,
+    inputs: [
+      {
+        name: 'contributor',
+        internalType: 'address',
+        type: 'address',
+        indexed: true,
+      },
+      {
+        name: 'amount',
+        internalType: 'uint256',
+        type: 'uint256',
+        indexed: false,
+      },
+    ],
+    name: 'ContributionReceived',
+  },
+  {
+    type: 'event',
+    anonymous: false,
+    inputs: [
+      {
+        name: 'contributor',
+        internalType: 'address',
+        type: 'address',
+        indexed: true,
+      },
+      {
+        name: 'amount',
+        internalType: 'uint256',
+        type: 'uint256',
+        indexed: false,
+      },
+    ],
+    name: 'ContributionRefunded',
+  },
+  {
+    type: 'event',
+    anonymous: false,
+    inputs: [
+      {
+        name: 'recipient',
+        internalType: 'address',
+        type: 'address',
+        indexed: false,
+      },
+      {
+        name: 'feeRecipientAmount',
+        internalType: 'uint256',
+        type: 'uint256',
+        indexed: false,
+      },
+      {
+        name: 'recipientAmount',
+        internalType: 'uint256',
+        type: 'uint256',
+        indexed: false,
+      },
+    ],
+    name: 'FundsSwiped',
+  },
+  {
+    type: 'event',
+    anonymous: false,
+    inputs: [
+      {
+        name: 'version',
+        internalType: 'uint64',
+        type: 'uint64',
+        indexed: false,
+      },
+    ],
+    name: 'Initialized',
+  },
+  { type: 'error', inputs: [], name: 'AlreadyClaimed' },
+  { type: 'error', inputs: [], name: 'CannotCancelCancelledContract' },
+  { type: 'error', inputs: [], name: 'CannotCancelClaimedContract' },
+  { type: 'error', inputs: [], name: 'CannotCancelFinalizedContract' },
+  { type: 'error', inputs: [], name: 'CannotClaimAfterClaimWindow' },
+  { type: 'error', inputs: [], name: 'CannotClaimCancelledContract' },
+  { type: 'error', inputs: [], name: 'CannotClaimClaimedContract' },
+  { type: 'error', inputs: [], name: 'CannotClaimFailedContract' },
+  { type: 'error', inputs: [], name: 'CannotContributeAfterEndTime' },
+  { type: 'error', inputs: [], name: 'CannotContributeToCancelledContract' },
+  { type: 'error', inputs: [], name: 'CannotContributeToClaimedContract' },
+  { type: 'error', inputs: [], name: 'CannotContributeToFinalizedContract' },
+  { type: 'error', inputs: [], name: 'CannotRefundClaimedContract' },
+  { type: 'error', inputs: [], name: 'CannotRefundNonActiveContract' },
+  { type: 'error', inputs: [], name: 'CannotRefundRefundedContract' },
+  { type: 'error', inputs: [], name: 'CannotRefundZeroContribution' },
+  {
+    type: 'error',
+    inputs: [],
+    name: 'CannotSwipeFundsBeforeEndOfClaimOrRefundWindow',
+  },
+  { type: 'error', inputs: [], name: 'CannotSwipeFundsInClaimedContract' },
+  { type: 'error', inputs: [], name: 'CannotSwipeFundsInRefundedContract' },
+  {
+    type: 'error',
+    inputs: [],
+    name: 'ContributorFeeCannotExceedContributionAmount',
+  },
+  { type: 'error', inputs: [], name: 'ECDSAInvalidSignature' },
+  {
+    type: 'error',
+    inputs: [{ name: 'length', internalType: 'uint256', type: 'uint256' }],
+    name: 'ECDSAInvalidSignatureLength',
+  },
+  {
+    type: 'error',
+    inputs: [{ name: 's', internalType: 'bytes32', type: 'bytes32' }],
+    name: 'ECDSAInvalidSignatureS',
+  },
+  {
+    type: 'error',
+    inputs: [{ name: 'reason', internalType: 'bytes', type: 'bytes' }],
+    name: 'FailedToRefund',
+  },
+  {
+    type: 'error',
+    inputs: [{ name: 'reason', internalType: 'bytes', type: 'bytes' }],
+    name: 'FailedToSendFeeRecipientAmount',
+  },
+  {
+    type: 'error',
+    inputs: [{ name: 'reason', internalType: 'bytes', type: 'bytes' }],
+    name: 'FailedToSendFundsInClaim',
+  },
+  {
+    type: 'error',
+    inputs: [{ name: 'reason', internalType: 'bytes', type: 'bytes' }],
+    name: 'FailedToSwipeFunds',
+  },
+  { type: 'error', inputs: [], name: 'GoalNotReached' },
+  { type: 'error', inputs: [], name: 'GoalReachedAlready' },
+  {
+    type: 'error',
+    inputs: [
+      { name: 'balance', internalType: 'uint256', type: 'uint256' },
+      { name: 'refundAmount', internalType: 'uint256', type: 'uint256' },
+      { name: 'goal', internalType: 'uint256', type: 'uint256' },
+    ],
+    name: 'InsufficientBalanceForRefund',
+  },
+  {
+    type: 'error',
+    inputs: [
+      { name: 'account', internalType: 'address', type: 'address' },
+      { name: 'currentNonce', internalType: 'uint256', type: 'uint256' },
+    ],
+    name: 'InvalidAccountNonce',
+  },
+  { type: 'error', inputs: [], name: 'InvalidClaimAddress' },
+  { type: 'error', inputs: [], name: 'InvalidClaimWindow' },
+  { type: 'error', inputs: [], name: 'InvalidContribution' },
+  { type: 'error', inputs: [], name: 'InvalidCreator' },
+  { type: 'error', inputs: [], name: 'InvalidDuration' },
+  { type: 'error', inputs: [], name: 'InvalidGoal' },
+  { type: 'error', inputs: [], name: 'InvalidGoalReachedStrategy' },
+  { type: 'error', inputs: [], name: 'InvalidInitialization' },
+  { type: 'error', inputs: [], name: 'InvalidRefundAddress' },
+  { type: 'error', inputs: [], name: 'InvalidRefundWindow' },
+  { type: 'error', inputs: [], name: 'InvalidSignature' },
+  { type: 'error', inputs: [], name: 'InvalidSwapContract' },
+  { type: 'error', inputs: [], name: 'NoFundsToSwipe' },
+  { type: 'error', inputs: [], name: 'NotInitializing' },
+  { type: 'error', inputs: [], name: 'OnlyCreatorCanClaim' },
+  { type: 'error', inputs: [], name: 'OnlyCreatorOrFactoryOwnerCanCancel' },
+  { type: 'error', inputs: [], name: 'OnlyFactoryCanSwipeFunds' },
+  {
+    type: 'error',
+    inputs: [
+      { name: 'refundAmount', internalType: 'uint256', type: 'uint256' },
+      { name: 'processingFee', internalType: 'uint256', type: 'uint256' },
+    ],
+    name: 'ProcessingFeeHigherThanRefundAmount',
+  },
+  { type: 'error', inputs: [], name: 'SignatureExpired' },
+] as const
+
+//////////////////////////////////////////////////////////////////////////////////////////////////
+// AonGoalReachedNative
+//////////////////////////////////////////////////////////////////////////////////////////////////
+
+export const aonGoalReachedNativeAbi = [
+  {
+    type: 'function',
+    inputs: [],
+    name: 'isGoalReached',
+    outputs: [{ name: '', internalType: 'bool', type: 'bool' }],
+    stateMutability: 'view',
+  },
+] as const
+
+//////////////////////////////////////////////////////////////////////////////////////////////////
+// AonProxy
+//////////////////////////////////////////////////////////////////////////////////////////////////
+
+export const aonProxyAbi = [
+  {
+    type: 'constructor',
+    inputs: [{ name: 'impl', internalType: 'address', type: 'address' }],
+    stateMutability: 'nonpayable',
+  },
+  { type: 'fallback', stateMutability: 'payable' },
+  { type: 'receive', stateMutability: 'payable' },
+  {
+    type: 'function',
+    inputs: [],
+    name: 'implementation',
+    outputs: [{ name: '', internalType: 'address', type: 'address' }],
+    stateMutability: 'view',
+  },
+  { type: 'error', inputs: [], name: 'DirectTransfersNotAllowed' },
+  { type: 'error', inputs: [], name: 'InvalidImplementation' },
+] as const
+
+//////////////////////////////////////////////////////////////////////////////////////////////////
+// Factory
+//////////////////////////////////////////////////////////////////////////////////////////////////
+
+export const factoryAbi = [
+  {
+    type: 'constructor',
+    inputs: [
+      { name: '_implementation', internalType: 'address', type: 'address' },
+      {
+        name: '_swipeRecipient',
+        internalType: 'address payable',
+        type: 'address',
+      },
+      {
+        name: '_feeRecipient',
+        internalType: 'address payable',
+        type: 'address',
+      },
+      { name: '_owner', internalType: 'address', type: 'address' },
+    ],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    inputs: [
+      { name: 'creator', internalType: 'address payable', type: 'address' },
+      { name: 'goalInEther', internalType: 'uint256', type: 'uint256' },
+      { name: 'durationInSeconds', internalType: 'uint32', type: 'uint32' },
+      { name: 'goalReachedStrategy', internalType: 'address', type: 'address' },
+      { name: 'claimWindow', internalType: 'uint32', type: 'uint32' },
+      { name: 'refundWindow', internalType: 'uint32', type: 'uint32' },
+    ],
+    name: 'create',
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    inputs: [],
+    name: 'feeRecipient',
+    outputs: [{ name: '', internalType: 'address payable', type: 'address' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    inputs: [],
+    name: 'implementation',
+    outputs: [{ name: '', internalType: 'address', type: 'address' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    inputs: [],
+    name: 'owner',
+    outputs: [{ name: '', internalType: 'address', type: 'address' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    inputs: [],
+    name: 'renounceOwnership',
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    inputs: [
+      {
+        name: '_feeRecipient',
+        internalType: 'address payable',
+        type: 'address',
+      },
+    ],
+    name: 'setFeeRecipient',
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    inputs: [
+      { name: '_implementation', internalType: 'address', type: 'address' },
+    ],
+    name: 'setImplementation',
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    inputs: [
+      {
+        name: '_swipeRecipient',
+        internalType: 'address payable',
+        type: 'address',
+      },
+    ],
+    name: 'setSwipeRecipient',
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    inputs: [],
+    name: 'swipeRecipient',
+    outputs: [{ name: '', internalType: 'address payable', type: 'address' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    inputs: [{ name: 'newOwner', internalType: 'address', type: 'address' }],
+    name: 'transferOwnership',
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'event',
+    anonymous: false,
+    inputs: [
+      {
+        name: 'contractAddress',
+        internalType: 'address',
+        type: 'address',
+        indexed: false,
+      },
+    ],
+    name: 'AonCreated',
+  },
+  {
+    type: 'event',
+    anonymous: false,
+    inputs: [
+      {
+        name: 'previousOwner',
+        internalType: 'address',
+        type: 'address',
+        indexed: true,
+      },
+      {
+        name: 'newOwner',
+        internalType: 'address',
+        type: 'address',
+        indexed: true,
+      },
+    ],
+    name: 'OwnershipTransferred',
+  },
+  { type: 'error', inputs: [], name: 'InvalidFeeRecipient' },
+  { type: 'error', inputs: [], name: 'InvalidImplementation' },
+  { type: 'error', inputs: [], name: 'InvalidOwner' },
+  { type: 'error', inputs: [], name: 'InvalidSwipeRecipient' },
+  {
+    type: 'error',
+    inputs: [{ name: 'owner', internalType: 'address', type: 'address' }],
+    name: 'OwnableInvalidOwner',
+  },
+  {
+    type: 'error',
+    inputs: [{ name: 'account', internalType: 'address', type: 'address' }],
+    name: 'OwnableUnauthorizedAccount',
+  },
+] as const
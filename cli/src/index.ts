@@ -11,14 +11,22 @@ dotenv.config({ path: resolve(process.cwd(), '.env') }); // Current directory
 dotenv.config({ path: resolve(process.cwd(), '../.env') }); // Parent directory
 dotenv.config({ path: resolve(__dirname, '../.env') }); // Relative to built CLI
 dotenv.config({ path: resolve(__dirname, '../../.env') }); // CLI source directory
+import { enableJsonOutput, recordError } from './lib/output';
+import { closeRpcSockets } from './lib/contract';
 import { deployCommand } from './commands/deploy';
 import { campaignCommand } from './commands/campaign';
 import { contributeCommand } from './commands/contribute';
 import { refundCommand } from './commands/refund';
 import { claimCommand } from './commands/claim';
+import { signCommand } from './commands/sign';
+import { swipeCommand } from './commands/swipe';
+import { factoryCommand } from './commands/factory';
 import { setupCommand } from './commands/setup';
+import { networkCommand } from './commands/network';
 import { accountsCommand } from './commands/accounts';
+import { mnemonicCommand } from './commands/mnemonic';
 import { balanceCommand } from './commands/balance';
+import { txCommand } from './commands/tx';
 
 const program = new Command();
 
@@ -26,7 +34,18 @@ program
   .name('aon-cli')
   .description('CLI tool for interacting with AON (All-Or-Nothing) crowdfunding contracts')
   .version('1.0.0')
-  .option('--rpc-url <url>', 'Custom RPC URL (overrides network configuration)');
+  .option('--rpc-url <url>', 'Custom RPC URL (overrides network configuration)')
+  .option('--json', 'Emit a single machine-readable JSON document instead of formatted output')
+  .hook('preAction', (thisCommand, actionCommand) => {
+    if (thisCommand.opts().json) {
+      const path: string[] = [];
+      for (let command: Command | null = actionCommand; command && command !== thisCommand; command = command.parent) {
+        path.unshift(command.name());
+      }
+      enableJsonOutput(path.join(' '));
+    }
+  })
+  .hook('postAction', () => closeRpcSockets());
 
 // Add styling to help text
 program.configureHelp({
@@ -37,6 +56,7 @@ program.configureHelp({
 
 // Environment setup commands
 program.addCommand(setupCommand);
+program.addCommand(networkCommand);
 
 // Contract deployment commands
 program.addCommand(deployCommand);
@@ -49,17 +69,30 @@ program.addCommand(contributeCommand);
 program.addCommand(refundCommand);
 program.addCommand(claimCommand);
 
+// Swap authorizations
+program.addCommand(signCommand);
+
+// Factory owner operations
+program.addCommand(factoryCommand);
+program.addCommand(swipeCommand);
+
+// Pending transactions
+program.addCommand(txCommand);
+
 // Utility commands
 program.addCommand(accountsCommand);
+program.addCommand(mnemonicCommand);
 program.addCommand(balanceCommand);
 
 // Global error handler
 process.on('uncaughtException', (error) => {
+  recordError(error.message);
   console.error(chalk.red('Uncaught Exception:'), error.message);
   process.exit(1);
 });
 
 process.on('unhandledRejection', (reason) => {
+  recordError(String(reason));
   console.error(chalk.red('Unhandled Rejection:'), reason);
   process.exit(1);
 });
@@ -0,0 +1,144 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { parseEther } from 'viem';
+import { isValidEthereumAddress, isZeroAddress, validateEthAmount } from './utils';
+import { ContributionBatchResult, ContributionBatchRow, ContributionBatchStatus } from '../types';
+
+/*
+ * CSV files of "aon-cli contribute batch": one contributeFor per row, the results file doubles
+ * as the progress record that a rerun resumes from.
+ */
+
+const BATCH_COLUMNS = ['campaign', 'contributor', 'amount', 'creatorFee', 'contributorFee'] as const;
+const RESULT_COLUMNS = ['row', ...BATCH_COLUMNS, 'status', 'transactionHash', 'error'] as const;
+
+// Splits a CSV line, double-quoted fields may contain commas and "" escapes
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field.trim());
+  return fields;
+}
+
+function toCsvLine(fields: string[]): string {
+  return fields.map((field) => (/[",\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field)).join(',');
+}
+
+// Non-empty lines with their line numbers, without the header row if there is one
+function readCsvLines(file: string, firstColumn: string): { line: number; fields: string[] }[] {
+  const lines = readFileSync(file, 'utf8')
+    .split(/\r?\n/)
+    .map((text, index) => ({ line: index + 1, text }))
+    .filter(({ text }) => text.trim() !== '')
+    .map(({ line, text }) => ({ line, fields: parseCsvLine(text) }));
+
+  return lines.length > 0 && lines[0].fields[0].toLowerCase() === firstColumn.toLowerCase() ? lines.slice(1) : lines;
+}
+
+/**
+ * Reads rows of campaign,contributor,amount[,creatorFee[,contributorFee]], fees default to 0.
+ */
+export function readContributionBatch(file: string): ContributionBatchRow[] {
+  const rows = readCsvLines(file, 'campaign').map(({ line, fields }) => {
+    if (fields.length < 3 || fields.length > BATCH_COLUMNS.length) {
+      throw new Error(`Line ${line}: expected ${BATCH_COLUMNS.join(',')} (fees are optional), got ${fields.length} columns`);
+    }
+
+    const [campaign, contributor, amount, creatorFee = '0', contributorFee = '0'] = fields;
+    return { row: line, campaign, contributor, amount, creatorFee: creatorFee || '0', contributorFee: contributorFee || '0' };
+  });
+
+  if (rows.length === 0) {
+    throw new Error(`No contributions in ${file}`);
+  }
+
+  return rows;
+}
+
+/**
+ * The reason a row can never be sent, checked before any transaction goes out.
+ */
+export function validateContributionRow(row: ContributionBatchRow): string | undefined {
+  if (!isValidEthereumAddress(row.campaign)) {
+    return 'Invalid campaign address';
+  }
+
+  if (!isValidEthereumAddress(row.contributor) || isZeroAddress(row.contributor)) {
+    return 'Invalid contributor address';
+  }
+
+  try {
+    validateEthAmount(row.amount);
+    validateEthAmount(row.creatorFee, true);
+    validateEthAmount(row.contributorFee, true);
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  // Mirrors Aon.isValidContribution, the contributor fee is taken out of the amount
+  if (parseEther(row.contributorFee) >= parseEther(row.amount)) {
+    return 'The contributor fee must be lower than the contribution amount';
+  }
+
+  return undefined;
+}
+
+export function readContributionBatchResults(file: string): Map<number, ContributionBatchResult> {
+  const results = new Map<number, ContributionBatchResult>();
+  if (!existsSync(file)) {
+    return results;
+  }
+
+  for (const { fields } of readCsvLines(file, 'row')) {
+    const [row, campaign, contributor, amount, creatorFee, contributorFee, status, transactionHash, error] = fields;
+    results.set(Number(row), {
+      row: Number(row),
+      campaign,
+      contributor,
+      amount,
+      creatorFee,
+      contributorFee,
+      status: status as ContributionBatchStatus,
+      transactionHash: transactionHash || undefined,
+      error: error || undefined,
+    });
+  }
+
+  return results;
+}
+
+// Rewritten after every row, so an interrupted batch never loses a transaction hash
+export function writeContributionBatchResults(file: string, results: ContributionBatchResult[]): void {
+  const lines = [
+    RESULT_COLUMNS.join(','),
+    ...results.map((result) => toCsvLine(RESULT_COLUMNS.map((column) => String(result[column] ?? '')))),
+  ];
+  writeFileSync(file, lines.join('\n') + '\n', 'utf8');
+}
+
+// A results row only resumes the input row it was written for
+export function isSameContribution(a: ContributionBatchRow, b: ContributionBatchRow): boolean {
+  return BATCH_COLUMNS.every((column) => a[column].toLowerCase() === b[column].toLowerCase());
+}
@@ -6,6 +6,9 @@ import { CLIConfig, NetworkConfig } from '../types';
 
 const CONFIG_DIR = resolve(homedir(), '.aon-cli');
 const CONFIG_FILE = resolve(CONFIG_DIR, 'config.yaml');
+const KEYSTORE_DIR = resolve(CONFIG_DIR, 'keystore');
+const MNEMONIC_FILE = resolve(CONFIG_DIR, 'mnemonic.json');
+const DEPLOYMENTS_DIR = resolve(CONFIG_DIR, 'deployments');
 
 const DEFAULT_CONFIG: CLIConfig = {
   networks: {
@@ -155,17 +158,42 @@ export class Config {
   }
 
   removeNetwork(name: string): void {
+    if (!this.config.networks[name]) {
+      throw new Error(`Network '${name}' not found`);
+    }
+
     if (name === this.config.defaultNetwork) {
       throw new Error('Cannot remove the default network');
     }
+
+    // Built-in networks are merged back on load, removing one would only drop its contracts
+    if (this.isBuiltInNetwork(name)) {
+      throw new Error('Cannot remove a built-in network');
+    }
     
     delete this.config.networks[name];
     this.save();
   }
 
+  isBuiltInNetwork(name: string): boolean {
+    return name in DEFAULT_CONFIG.networks;
+  }
+
   getConfigPath(): string {
     return CONFIG_FILE;
   }
+
+  getKeystoreDir(): string {
+    return KEYSTORE_DIR;
+  }
+
+  getMnemonicPath(): string {
+    return MNEMONIC_FILE;
+  }
+
+  getDeploymentsDir(): string {
+    return DEPLOYMENTS_DIR;
+  }
 }
 
 export const config = new Config();
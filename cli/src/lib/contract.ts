@@ -2,110 +2,178 @@ import {
   createPublicClient, 
   createWalletClient, 
   http, 
+  webSocket,
   parseEther, 
   formatEther, 
   getContract,
-  parseAbi,
+  parseEventLogs,
+  decodeFunctionData,
+  decodeFunctionResult,
+  encodeDeployData,
+  encodeFunctionData,
+  getContractAddress,
+  defineChain,
+  domainSeparator,
+  formatGwei,
+  hexToBigInt,
+  keccak256,
+  WaitForTransactionReceiptTimeoutError,
   type PublicClient,
   type WalletClient,
   type Address,
   type Hash,
+  type Hex,
   type GetContractReturnType,
-  type Chain
+  type Chain,
+  type Account,
+  type TransactionReceipt
 } from 'viem';
-import { privateKeyToAccount } from 'viem/accounts';
+import { socketClientCache } from 'viem/utils';
 import { anvil, rootstockTestnet, rootstock } from 'viem/chains';
 import { config } from './config';
-import { CampaignInfo, ContributionInfo, DeploymentResult, NetworkConfig } from '../types';
-
-// ABI definitions (simplified for CLI usage)
-const FACTORY_ABI = parseAbi([
-  'function create(address creator, uint256 goalInEther, uint256 durationInSeconds, address goalReachedStrategy, uint256 claimOrRefundWindow) external',
-  'function implementation() external view returns (address)',
-  'function owner() external view returns (address)',
-  'function setImplementation(address _implementation) external',
-  'event AonCreated(address contractAddress)',
-]);
-
-const AON_ABI = parseAbi([
-  'function creator() external view returns (address)',
-  'function goal() external view returns (uint256)',
-  'function endTime() external view returns (uint256)',
-  'function status() external view returns (uint8)',
-  'function totalCreatorFee() external view returns (uint256)',
-  'function totalContributorFee() external view returns (uint256)',
-  'function claimOrRefundWindow() external view returns (uint256)',
-  'function contributions(address) external view returns (uint256)',
-  'function contribute(uint256 creatorFee, uint256 contributorFee) external payable',
-  'function contributeFor(address contributor, uint256 creatorFee, uint256 contributorFee) external payable',
-  'function refund(uint256 processingFee) external',
-  'function claim() external',
-  'function cancel() external',
-  'function canRefund(address contributor, uint256 processingFee) external view returns (uint256, uint256)',
-  'function canClaim(address) external view returns (uint256, uint256)',
-  'function canContribute(uint256) external view returns (bool)',
-  'function canCancel() external view returns (bool)',
-  'function isSuccessful() external view returns (bool)',
-  'function isFailed() external view returns (bool)',
-  'function isUnclaimed() external view returns (bool)',
-  'function goalReachedStrategy() external view returns (address)',
-  'event ContributionReceived(address indexed contributor, uint256 amount)',
-  'event ContributionRefunded(address indexed contributor, uint256 amount)',
-  'event Claimed(uint256 creatorAmount, uint256 creatorFeeAmount, uint256 contributorFeeAmount)',
-  'event Cancelled()',
-  // Error definitions for proper decoding
-  'error GoalNotReached()',
-  'error GoalReachedAlready()',
-  'error InvalidContribution()',
-  'error AlreadyClaimed()',
-  'error OnlyCreatorCanClaim()',
-  'error CannotClaimCancelledContract()',
-  'error CannotClaimClaimedContract()',
-  'error CannotClaimFailedContract()',
-  'error CannotClaimUnclaimedContract()',
-  'error CannotRefundZeroContribution()',
-  'error CannotRefundClaimedContract()',
-  'error InsufficientBalanceForRefund(uint256 balance, uint256 refundAmount, uint256 goal)',
-  'error ContributorFeeCannotExceedContributionAmount()',
-  'error ProcessingFeeHigherThanRefundAmount(uint256 refundAmount, uint256 processingFee)',
-]);
-
-// Chain configurations
-const CHAIN_CONFIGS = {
-  local: { ...anvil, id: 31337 },
-  'rsk-testnet': rootstockTestnet,
-  'rsk-mainnet': rootstock,
-} as const;
+import { aonAbi, aonProxyAbi, factoryAbi } from '../generated';
+import { CLAIM_TYPES, REFUND_TYPES, getAonDomain } from './eip712';
+import {
+  clearDeploymentCheckpoint,
+  compareRuntimeCode,
+  findDeploymentManifest,
+  listDeploymentManifests,
+  readDeploymentCheckpoint,
+  writeDeploymentCheckpoint,
+  writeDeploymentManifest,
+  type FoundryArtifact
+} from './deployments';
+import { formatContractError } from './errors';
+import { ANVIL_MNEMONIC, deriveAccounts, getCoinType } from './mnemonic';
+import {
+  CampaignInfo,
+  CampaignInspection,
+  CampaignStatus,
+  ContributionEvent,
+  ContributionInfo,
+  CreatedCampaign,
+  ContractVerification,
+  DeployedContract,
+  DeployedContractName,
+  DeploymentCheckpoint,
+  DeploymentMatch,
+  DeploymentOptions,
+  DeploymentResult,
+  DeploymentStep,
+  DeploymentStepName,
+  DeploymentVerification,
+  FactoryInfo,
+  ImplementationDeployment,
+  NetworkConfig,
+  SignatureData,
+  SwapAuthorizationParams,
+  SwapAuthorizationState,
+  SwapClaimResult,
+  SwapContractLockParams,
+  SwipePreview,
+  SwipeResult,
+  CampaignEvent,
+  BalanceChange,
+  DryRunResult,
+  TransactionCall,
+  TransactionOptions,
+  TransactionReplacement,
+  UnsignedTransaction,
+  UnsignedTransactionFile,
+  BroadcastResult
+} from '../types';
+
+// Chain definitions viem ships, matched by the configured chainId
+const KNOWN_CHAINS: Chain[] = [anvil, rootstockTestnet, rootstock];
+
+// Anvil and RSK regtest, where deployments end with a throwaway smoke-test campaign
+const LOCAL_CHAIN_IDS = [anvil.id, 33];
+
+/**
+ * The viem chain for a configured network. Custom networks (e.g. RSK regtest or a private node)
+ * get a chain synthesized from their config, native currency RBTC.
+ */
+function resolveChain(network: NetworkConfig): Chain {
+  const known = KNOWN_CHAINS.find((chain) => chain.id === network.chainId);
+  if (known) {
+    return known;
+  }
+
+  return defineChain({
+    id: network.chainId,
+    name: network.name,
+    nativeCurrency: { name: 'Rootstock Smart Bitcoin', symbol: 'RBTC', decimals: 18 },
+    rpcUrls: { default: { http: [network.rpcUrl] } },
+  });
+}
+
+interface PredictedBalanceChange {
+  label: string;
+  address: Address;
+  delta: bigint;
+}
+
+// Aon.SwapContractLockParams as the contract expects it
+function toLockParams(lockParams: SwapContractLockParams) {
+  return {
+    functionSignature: lockParams.functionSignature,
+    preimageHash: lockParams.preimageHash as Hex,
+    claimAddress: lockParams.claimAddress as Address,
+    refundAddress: lockParams.refundAddress as Address,
+    timelock: BigInt(lockParams.timelock),
+  };
+}
+
+/**
+ * Closes the connections of WebSocket networks. An open socket keeps the process alive, so a
+ * command that returns instead of exiting would never end.
+ */
+export function closeRpcSockets(): void {
+  for (const client of [...socketClientCache.values()]) {
+    client.close();
+  }
+}
 
 export class ContractManager {
   private publicClient: PublicClient;
   private walletClient?: WalletClient;
   private network: NetworkConfig;
   private networkKey: string;
-  private account?: ReturnType<typeof privateKeyToAccount>;
+  private account?: Account;
   private chain: Chain;
+  private transactionOptions: TransactionOptions;
+  // An explicit --nonce applies to the first transaction, later ones follow it
+  private nextNonce?: number;
 
-  constructor(networkName?: string, privateKey?: string, customRpcUrl?: string) {
+  // The signer is a local key, a remote JSON-RPC signer or a node-managed account (see resolveSigner)
+  constructor(networkName?: string, signer?: Account, customRpcUrl?: string, transactionOptions: TransactionOptions = {}) {
     this.networkKey = networkName || config.getDefaultNetwork();
+    this.transactionOptions = transactionOptions;
+    this.nextNonce = transactionOptions.nonce;
     this.network = config.getNetwork(networkName, customRpcUrl);
     
-    this.chain = CHAIN_CONFIGS[networkName as keyof typeof CHAIN_CONFIGS] || CHAIN_CONFIGS.local;
+    this.chain = resolveChain(this.network);
     
     this.publicClient = createPublicClient({
       chain: this.chain,
-      transport: http(this.network.rpcUrl),
+      transport: this.createTransport(),
     });
     
-    if (privateKey) {
-      this.account = privateKeyToAccount(`0x${privateKey.replace('0x', '')}` as `0x${string}`);
+    if (signer) {
+      this.account = signer;
       this.walletClient = createWalletClient({
         account: this.account,
         chain: this.chain,
-        transport: http(this.network.rpcUrl),
+        transport: this.createTransport(),
       });
     }
   }
 
+  // WebSocket endpoints get push subscriptions, HTTP endpoints fall back to polling
+  private createTransport() {
+    return /^wss?:\/\//.test(this.network.rpcUrl) ? webSocket(this.network.rpcUrl) : http(this.network.rpcUrl);
+  }
+
   async getBalance(address: string): Promise<string> {
     const balance = await this.publicClient.getBalance({ 
       address: address as Address 
@@ -113,24 +181,12 @@ export class ContractManager {
     return formatEther(balance);
   }
 
-  async getAccounts(): Promise<string[]> {
+  async getAccounts(count: number = 10): Promise<string[]> {
     try {
-      // For Anvil/local development, try to get test accounts
+      // For Anvil/local development, derive the dev accounts from the default mnemonic
       if (this.networkKey === 'local') {
-        // Anvil default accounts (first 10)
-        const accounts = [
-          '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
-          '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
-          '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC',
-          '0x90F79bf6EB2c4f870365E785982E1f101E93b906',
-          '0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65',
-          '0x9965507D1a55bcC2695C58ba16FB37d819B0A4dc',
-          '0x976EA74026E726554dB657fA54763abd0C3a0aa9',
-          '0x14dC79964da2C08b23698B3D3cc7Ca32193d9955',
-          '0x23618e81E3f5cdF7f54C3d65f7FBc0aBf5B21E8f',
-          '0xa0Ee7A142d267C1f36714E4a8F75612F20a79720',
-        ];
-        return accounts;
+        return deriveAccounts(ANVIL_MNEMONIC, getCoinType('ethereum', this.network.chainId), 0, count)
+          .map((account) => account.address);
       }
       
       // For production networks, return account if available
@@ -147,137 +203,430 @@ export class ContractManager {
     }
   }
 
-  async deployContracts(): Promise<DeploymentResult> {
-    if (!this.walletClient || !this.account) {
+  /**
+   * Deploys the implementation, goal strategy and factory, then records them in the config.
+   * Every step is checkpointed until the deployment completes, so a rerun after a failure reuses the
+   * contracts that still have code (unless options.fresh) and only deploys what is missing. On local
+   * chains a smoke test follows.
+   */
+  async deployContracts(
+    options: DeploymentOptions = {},
+    onStep?: (step: DeploymentStepName) => void
+  ): Promise<DeploymentResult> {
+    if (!this.account) {
       throw new Error('Wallet client required for deployment');
     }
 
-    // Read contract artifacts from Foundry output
-    const fs = require('fs');
-    const path = require('path');
-    
-    const outDir = path.resolve(__dirname, '../../../out');
-    
-    // Load contract artifacts
-    const aonArtifact = JSON.parse(fs.readFileSync(path.join(outDir, 'Aon.sol/Aon.json'), 'utf8'));
-    const factoryArtifact = JSON.parse(fs.readFileSync(path.join(outDir, 'Factory.sol/Factory.json'), 'utf8'));
-    const goalStrategyArtifact = JSON.parse(fs.readFileSync(path.join(outDir, 'AonGoalReachedNative.sol/AonGoalReachedNative.json'), 'utf8'));
-
-    // Deploy Aon implementation
-    const aonHash = await this.walletClient.deployContract({
-      abi: aonArtifact.abi,
-      bytecode: aonArtifact.bytecode.object,
-      args: [],
-      account: this.account!,
-      chain: this.chain,
-    });
-    
-    const aonReceipt = await this.publicClient.waitForTransactionReceipt({ hash: aonHash });
-    const aonAddress = aonReceipt.contractAddress!;
-
-    // Deploy goal strategy
-    const goalStrategyHash = await this.walletClient.deployContract({
-      abi: goalStrategyArtifact.abi,
-      bytecode: goalStrategyArtifact.bytecode.object,
-      args: [],
-      account: this.account!,
-      chain: this.chain,
-    });
-    
-    const goalStrategyReceipt = await this.publicClient.waitForTransactionReceipt({ hash: goalStrategyHash });
-    const goalStrategyAddress = goalStrategyReceipt.contractAddress!;
-
-    // Deploy factory
-    const factoryHash = await this.walletClient.deployContract({
-      abi: factoryArtifact.abi,
-      bytecode: factoryArtifact.bytecode.object,
-      args: [aonAddress],
-      account: this.account!,
-      chain: this.chain,
+    // Factory roles default to the deployer
+    const owner = (options.owner || this.account.address) as Address;
+    const feeRecipient = (options.feeRecipient || this.account.address) as Address;
+    const swipeRecipient = (options.swipeRecipient || this.account.address) as Address;
+
+    const chainId = await this.getChainId();
+    if (options.fresh) {
+      clearDeploymentCheckpoint(chainId);
+    }
+
+    const checkpoint: DeploymentCheckpoint = readDeploymentCheckpoint(chainId) ?? {
+      version: 1,
+      network: this.networkKey,
+      chainId,
+      contracts: {},
+    };
+    const { aonArtifact, goalStrategyArtifact, factoryArtifact } = this.loadDeploymentArtifacts();
+    const steps: DeploymentStep[] = [];
+    let gasUsed = 0n;
+
+    const deployStep = async (
+      contract: DeployedContractName,
+      artifact: FoundryArtifact,
+      artifactName: string,
+      getCall: () => TransactionCall,
+      constructorArgs: Record<string, string> = {}
+    ): Promise<DeployedContract> => {
+      onStep?.(contract);
+
+      // Reuse the checkpointed contract if it was built from the same artifact and arguments and still has code
+      const existing = checkpoint.contracts[contract];
+      if (
+        existing &&
+        existing.bytecodeHash === keccak256(artifact.bytecode.object) &&
+        JSON.stringify(existing.constructorArgs) === JSON.stringify(constructorArgs) &&
+        await this.hasCode(existing.address)
+      ) {
+        steps.push({ step: contract, status: 'skipped' });
+        return existing;
+      }
+
+      const pending = checkpoint.pending?.contract === contract ? checkpoint.pending.hash as Hash : undefined;
+      const receipt = (pending && await this.recoverTransaction(pending)) || await this.send(getCall(), (hash) => {
+        checkpoint.pending = { contract, hash };
+        writeDeploymentCheckpoint(checkpoint);
+      });
+
+      const deployed: DeployedContract = {
+        artifact: artifactName,
+        address: receipt.contractAddress!,
+        transactionHash: receipt.transactionHash,
+        blockNumber: Number(receipt.blockNumber),
+        gasUsed: receipt.gasUsed.toString(),
+        constructorArgs,
+        bytecodeHash: keccak256(artifact.bytecode.object),
+        deployedBytecodeHash: keccak256(artifact.deployedBytecode.object),
+      };
+
+      checkpoint.contracts[contract] = deployed;
+      delete checkpoint.pending;
+      writeDeploymentCheckpoint(checkpoint);
+
+      steps.push({ step: contract, status: 'done' });
+      gasUsed += receipt.gasUsed;
+      return deployed;
+    };
+
+    const [aonCall, goalStrategyCall] = this.getContractDeploymentCalls();
+    const implementation = await deployStep('implementation', aonArtifact, 'Aon', () => aonCall);
+    const goalStrategy = await deployStep('goalStrategy', goalStrategyArtifact, 'AonGoalReachedNative', () => goalStrategyCall);
+    const factory = await deployStep(
+      'factory',
+      factoryArtifact,
+      'Factory',
+      () => this.getFactoryDeploymentCall(options, implementation.address as Address),
+      { implementation: implementation.address, swipeRecipient, feeRecipient, owner }
+    );
+
+    const manifest = writeDeploymentManifest({
+      version: 1,
+      network: this.networkKey,
+      chainId,
+      deployer: this.account.address,
+      deployedAt: new Date().toISOString(),
+      contracts: { implementation, goalStrategy, factory },
     });
-    
-    const factoryReceipt = await this.publicClient.waitForTransactionReceipt({ hash: factoryHash });
-    const factoryAddress = factoryReceipt.contractAddress!;
+
+    // Save contract addresses to config
+    onStep?.('configuration');
+    const contracts = {
+      factory: factory.address,
+      implementation: implementation.address,
+      goalStrategy: goalStrategy.address,
+      owner,
+      feeRecipient,
+      swipeRecipient,
+    };
+    for (const [field, address] of Object.entries(contracts)) {
+      config.setNetworkContract(this.networkKey, field as keyof typeof contracts, address);
+    }
+    steps.push({ step: 'configuration', status: 'done' });
 
     const result: DeploymentResult = {
-      factory: factoryAddress,
-      implementation: aonAddress,
-      goalStrategy: goalStrategyAddress,
+      factory: factory.address,
+      implementation: implementation.address,
+      goalStrategy: goalStrategy.address,
+      owner,
+      feeRecipient,
+      swipeRecipient,
       deployer: this.account.address,
       network: this.network.name,
-      blockNumber: Number(factoryReceipt.blockNumber),
-      gasUsed: factoryReceipt.gasUsed.toString(),
+      blockNumber: factory.blockNumber,
+      gasUsed: gasUsed.toString(),
+      steps,
+      manifest,
     };
 
-    // Save contract addresses to config
-    config.setNetworkContract(this.networkKey, 'factory', result.factory);
-    config.setNetworkContract(this.networkKey, 'implementation', result.implementation);
-    config.setNetworkContract(this.networkKey, 'goalStrategy', result.goalStrategy);
+    // The deployment is complete: a later run starts a new one instead of resetting the configuration
+    // to these addresses (e.g. after "factory upgrade" or "factory set-*")
+    clearDeploymentCheckpoint(chainId);
+
+    if (LOCAL_CHAIN_IDS.includes(chainId)) {
+      onStep?.('smokeTest');
+      result.smokeTestCampaign = await this.runDeploymentSmokeTest();
+      steps.push({ step: 'smokeTest', status: 'done' });
+    }
 
     return result;
   }
 
-  async createCampaign(
-    creator: string,
-    goalInEther: string,
-    durationInSeconds: number,
-    claimOrRefundWindow: number
-  ): Promise<string> {
-    if (!this.walletClient) {
-      throw new Error('Wallet client required for campaign creation');
+  // Creates a throwaway campaign through the new factory and reads it back
+  private async runDeploymentSmokeTest(): Promise<string> {
+    const creator = this.account!.address;
+    const goal = '0.001';
+
+    const campaign = await this.createCampaign(creator, goal, 3600, 3600, 3600);
+    const info = await this.getCampaignInfo(campaign.address);
+
+    if (info.creator.toLowerCase() !== creator.toLowerCase() || info.goal !== goal || info.status !== CampaignStatus.Active) {
+      throw new Error(`Smoke test failed: campaign ${campaign.address} does not read back as an active ${goal} RBTC campaign of ${creator}`);
     }
 
-    const factoryAddress = config.getNetworkContract(this.networkKey, 'factory');
-    const goalStrategyAddress = config.getNetworkContract(this.networkKey, 'goalStrategy');
+    return campaign.address;
+  }
+
+  private async hasCode(address: string): Promise<boolean> {
+    const code = await this.publicClient.getCode({ address: address as Address });
+    return Boolean(code && code !== '0x');
+  }
+
+  /**
+   * The receipt of a transaction submitted by an interrupted run, undefined if it reverted or the node
+   * dropped it (then it can be sent again).
+   */
+  async recoverTransaction(hash: Hash): Promise<TransactionReceipt | undefined> {
+    try {
+      const receipt = await this.publicClient.getTransactionReceipt({ hash });
+      return receipt.status === 'success' ? receipt : undefined;
+    } catch {
+      // Not mined yet, wait for it while the node still knows the transaction
+      try {
+        await this.publicClient.getTransaction({ hash });
+      } catch {
+        return undefined;
+      }
+      return this.waitForReceipt(hash);
+    }
+  }
+
+  // Reads the contract artifacts from the Foundry output
+  private loadDeploymentArtifacts(): Record<'aonArtifact' | 'factoryArtifact' | 'goalStrategyArtifact', FoundryArtifact> {
+    const fs = require('fs');
+    const path = require('path');
     
-    if (!factoryAddress || !goalStrategyAddress) {
-      throw new Error('Factory or goal strategy contract not deployed on this network');
+    const outDir = path.resolve(__dirname, '../../../out');
+    
+    return {
+      aonArtifact: JSON.parse(fs.readFileSync(path.join(outDir, 'Aon.sol/Aon.json'), 'utf8')),
+      factoryArtifact: JSON.parse(fs.readFileSync(path.join(outDir, 'Factory.sol/Factory.json'), 'utf8')),
+      goalStrategyArtifact: JSON.parse(fs.readFileSync(path.join(outDir, 'AonGoalReachedNative.sol/AonGoalReachedNative.json'), 'utf8')),
+    };
+  }
+
+  /**
+   * Compares the runtime code of the configured contracts with the local Foundry artifacts and checks
+   * that the factory still points at the configured implementation.
+   */
+  async verifyDeployment(): Promise<DeploymentVerification> {
+    const factoryAddress = config.getNetworkContract(this.networkKey, 'factory');
+
+    if (!factoryAddress) {
+      throw new Error('Factory contract not deployed on this network');
     }
 
-    const factory = getContract({
+    const { aonArtifact, goalStrategyArtifact, factoryArtifact } = this.loadDeploymentArtifacts();
+    const chainId = await this.getChainId();
+
+    const verify = async (contract: DeployedContractName, artifactName: string, artifact: FoundryArtifact, address: string): Promise<ContractVerification> => {
+      const code = await this.publicClient.getCode({ address: address as Address });
+      return {
+        contract,
+        artifact: artifactName,
+        address,
+        status: compareRuntimeCode(code, artifact.deployedBytecode.object, artifact.deployedBytecode.immutableReferences),
+        expectedHash: keccak256(artifact.deployedBytecode.object),
+        actualHash: code && code !== '0x' ? keccak256(code) : undefined,
+      };
+    };
+
+    const factoryVerification = await verify('factory', 'Factory', factoryArtifact, factoryAddress);
+    if (factoryVerification.status === 'no-code') {
+      throw new Error(`No contract at the factory address ${factoryAddress}, check the network and its RPC URL`);
+    }
+
+    const actualImplementation = await this.publicClient.readContract({
       address: factoryAddress as Address,
-      abi: FACTORY_ABI,
-      client: { public: this.publicClient, wallet: this.walletClient },
+      abi: factoryAbi,
+      functionName: 'implementation',
     });
+    // Without a recorded implementation (e.g. a factory configured by hand), verify the one the factory uses
+    const expectedImplementation = config.getNetworkContract(this.networkKey, 'implementation') || actualImplementation;
+    const goalStrategyAddress = config.getNetworkContract(this.networkKey, 'goalStrategy');
 
-    const goalInWei = parseEther(goalInEther);
+    const contracts = [
+      await verify('implementation', 'Aon', aonArtifact, expectedImplementation),
+      ...(goalStrategyAddress ? [await verify('goalStrategy', 'AonGoalReachedNative', goalStrategyArtifact, goalStrategyAddress)] : []),
+      factoryVerification,
+    ];
+    const implementationMatches = expectedImplementation.toLowerCase() === actualImplementation.toLowerCase();
 
-    const hash = await factory.write.create([
-      creator as Address,
-      goalInWei,
-      BigInt(durationInSeconds),
-      goalStrategyAddress as Address,
-      BigInt(claimOrRefundWindow),
-    ], {
-      account: this.account!,
-      chain: this.chain,
-    });
+    return {
+      network: this.network.name,
+      chainId,
+      contracts,
+      implementation: {
+        expected: expectedImplementation,
+        actual: actualImplementation,
+        match: implementationMatches,
+      },
+      manifest: findDeploymentManifest(chainId, factoryAddress)?.path,
+      verified: implementationMatches && contracts.every((contract) => contract.status === 'match'),
+    };
+  }
 
-    const receipt = await this.publicClient.waitForTransactionReceipt({ hash });
+  async createCampaign(
+    creator: string,
+    goalInEther: string,
+    durationInSeconds: number,
+    claimWindow: number,
+    refundWindow: number
+  ): Promise<CreatedCampaign> {
+    const receipt = await this.send(
+      this.getCreateCampaignCall(creator, goalInEther, durationInSeconds, claimWindow, refundWindow)
+    );
     
     // Find the AonCreated event to get the campaign address
-    const logs = await this.publicClient.getLogs({
-      address: factoryAddress as Address,
-      event: {
-        type: 'event',
-        name: 'AonCreated',
-        inputs: [{ name: 'contractAddress', type: 'address', indexed: false }],
-      },
-      fromBlock: receipt.blockNumber,
-      toBlock: receipt.blockNumber,
+    const logs = parseEventLogs({
+      abi: factoryAbi,
+      eventName: 'AonCreated',
+      logs: receipt.logs,
     });
 
     if (logs.length === 0) {
       throw new Error('Campaign creation event not found');
     }
 
-    return logs[0].args.contractAddress as string;
+    return {
+      address: logs[0].args.contractAddress,
+      blockNumber: Number(receipt.blockNumber),
+      transactionHash: receipt.transactionHash,
+    };
+  }
+
+  async getCreatedCampaigns(
+    fromBlock: bigint = 0n,
+    chunkSize: bigint = 2000n,
+    onProgress?: (scannedBlock: bigint, latestBlock: bigint) => void
+  ): Promise<CreatedCampaign[]> {
+    const factoryAddress = config.getNetworkContract(this.networkKey, 'factory');
+
+    if (!factoryAddress) {
+      throw new Error('Factory contract not deployed on this network');
+    }
+
+    if (chunkSize <= 0n) {
+      throw new Error('Chunk size must be greater than 0');
+    }
+
+    const latestBlock = await this.publicClient.getBlockNumber();
+    const campaigns: CreatedCampaign[] = [];
+
+    // Public nodes cap the block range of eth_getLogs, so scan in chunks
+    for (let startBlock = fromBlock; startBlock <= latestBlock; startBlock += chunkSize) {
+      const endBlock = startBlock + chunkSize - 1n < latestBlock ? startBlock + chunkSize - 1n : latestBlock;
+
+      const logs = await this.publicClient.getContractEvents({
+        address: factoryAddress as Address,
+        abi: factoryAbi,
+        eventName: 'AonCreated',
+        fromBlock: startBlock,
+        toBlock: endBlock,
+      });
+
+      for (const log of logs) {
+        campaigns.push({
+          address: log.args.contractAddress as string,
+          blockNumber: Number(log.blockNumber),
+          transactionHash: log.transactionHash,
+        });
+      }
+
+      onProgress?.(endBlock, latestBlock);
+    }
+
+    return campaigns;
+  }
+
+  async getContributionEvents(
+    campaignAddress: string,
+    fromBlock: bigint = 0n,
+    chunkSize: bigint = 2000n,
+    onProgress?: (scannedBlock: bigint, latestBlock: bigint) => void
+  ): Promise<ContributionEvent[]> {
+    if (chunkSize <= 0n) {
+      throw new Error('Chunk size must be greater than 0');
+    }
+
+    const latestBlock = await this.publicClient.getBlockNumber();
+    const logs = [];
+
+    // Public nodes cap the block range of eth_getLogs, so scan in chunks
+    for (let startBlock = fromBlock; startBlock <= latestBlock; startBlock += chunkSize) {
+      const endBlock = startBlock + chunkSize - 1n < latestBlock ? startBlock + chunkSize - 1n : latestBlock;
+
+      const chunk = await this.publicClient.getContractEvents({
+        address: campaignAddress as Address,
+        abi: aonAbi,
+        fromBlock: startBlock,
+        toBlock: endBlock,
+      });
+
+      for (const log of chunk) {
+        if (log.eventName === 'ContributionReceived' || log.eventName === 'ContributionRefunded') {
+          logs.push(log);
+        }
+      }
+
+      onProgress?.(endBlock, latestBlock);
+    }
+
+    // The sender and called function tell contributeFor and refundToSwapContract apart from direct calls
+    const transactions = new Map<string, { sender: string; method?: string }>();
+    const hashes = [...new Set(logs.map((log) => log.transactionHash))];
+    for (let i = 0; i < hashes.length; i += 10) {
+      await Promise.all(hashes.slice(i, i + 10).map(async (hash) => {
+        const transaction = await this.publicClient.getTransaction({ hash });
+        let method: string | undefined;
+
+        if (transaction.to?.toLowerCase() === campaignAddress.toLowerCase()) {
+          try {
+            method = decodeFunctionData({ abi: aonAbi, data: transaction.input }).functionName;
+          } catch (error) {
+            // Not an Aon function, e.g. a plain transfer
+            method = undefined;
+          }
+        }
+
+        transactions.set(hash, { sender: transaction.from, method });
+      }));
+    }
+
+    return logs.map((log) => {
+      const args = log.args as { contributor: Address; amount: bigint };
+      const transaction = transactions.get(log.transactionHash)!;
+
+      return {
+        type: log.eventName === 'ContributionReceived' ? 'contribution' : 'refund',
+        contributor: args.contributor,
+        amount: formatEther(args.amount),
+        sender: transaction.sender,
+        method: transaction.method,
+        blockNumber: Number(log.blockNumber),
+        transactionHash: log.transactionHash,
+      };
+    });
+  }
+
+  async getContributions(campaignAddress: string, contributors: string[]): Promise<Record<string, string>> {
+    const campaign = getContract({
+      address: campaignAddress as Address,
+      abi: aonAbi,
+      client: this.publicClient,
+    });
+
+    const contributions: Record<string, string> = {};
+    for (let i = 0; i < contributors.length; i += 10) {
+      const batch = contributors.slice(i, i + 10);
+      const amounts = await Promise.all(batch.map((contributor) => campaign.read.contributions([contributor as Address])));
+      batch.forEach((contributor, index) => {
+        contributions[contributor.toLowerCase()] = formatEther(amounts[index]);
+      });
+    }
+
+    return contributions;
   }
 
   async getCampaignInfo(campaignAddress: string): Promise<CampaignInfo> {
     const campaign = getContract({
       address: campaignAddress as Address,
-      abi: AON_ABI,
+      abi: aonAbi,
       client: this.publicClient,
     });
 
@@ -288,25 +637,24 @@ export class ContractManager {
       status,
       totalCreatorFee,
       totalContributorFee,
-      claimOrRefundWindow,
+      claimWindow,
+      refundWindow,
       balance,
-      isSuccessful,
-      isFailed,
-      isUnclaimed
     ] = await Promise.all([
       campaign.read.creator(),
       campaign.read.goal(),
       campaign.read.endTime(),
-      campaign.read.status(),
+      campaign.read.getStatus(),
       campaign.read.totalCreatorFee(),
       campaign.read.totalContributorFee(),
-      campaign.read.claimOrRefundWindow(),
+      campaign.read.claimWindow(),
+      campaign.read.refundWindow(),
       this.publicClient.getBalance({ address: campaignAddress as Address }),
-      campaign.read.isSuccessful(),
-      campaign.read.isFailed(),
-      campaign.read.isUnclaimed(),
     ]);
 
+    // Same as Aon.goalBalance(), which reverts once claim or swipeFunds emptied a campaign with contributor fees
+    const goalBalance = balance > totalContributorFee ? balance - totalContributorFee : 0n;
+
     return {
       address: campaignAddress,
       creator,
@@ -316,105 +664,228 @@ export class ContractManager {
       balance: formatEther(balance),
       totalCreatorFee: formatEther(totalCreatorFee),
       totalContributorFee: formatEther(totalContributorFee),
-      claimOrRefundWindow: Number(claimOrRefundWindow),
-      goalReached: isSuccessful,
-      isSuccessful,
-      isFailed,
-      isUnclaimed,
+      claimWindow: Number(claimWindow),
+      refundWindow: Number(refundWindow),
+      goalReached: goalBalance >= goal,
+      isSuccessful: status === CampaignStatus.Successful,
+      isFailed: status === CampaignStatus.Failed,
+      isUnclaimed: status === CampaignStatus.Unclaimed,
     };
   }
 
-  async contribute(campaignAddress: string, amountInEther: string, creatorFeeInEther: string = '0', contributorFeeInEther: string = '0'): Promise<Hash> {
-    if (!this.walletClient) {
-      throw new Error('Wallet client required for contribution');
+  /**
+   * Integrity check for support: where a campaign's logic, factory and goal strategy come from,
+   * whether its EIP-712 domain is the one the CLI signs for, and its raw state.
+   */
+  async inspectCampaign(campaignAddress: string): Promise<CampaignInspection> {
+    if (!await this.hasCode(campaignAddress)) {
+      throw new Error(`No contract at ${campaignAddress} on this network`);
     }
 
     const campaign = getContract({
       address: campaignAddress as Address,
-      abi: AON_ABI,
-      client: { public: this.publicClient, wallet: this.walletClient },
+      abi: aonAbi,
+      client: this.publicClient,
     });
 
-    const amount = parseEther(amountInEther);
-    const creatorFee = parseEther(creatorFeeInEther);
-    const contributorFee = parseEther(contributorFeeInEther);
+    // Each getter on its own: goalBalance() and claimableBalance() underflow once claim or swipeFunds
+    // emptied a campaign with fees recorded, and a rogue contract may lack any of them
+    const unreadable: string[] = [];
+    const read = <T>(field: string, value: Promise<T>): Promise<T | undefined> =>
+      value.catch(() => {
+        unreadable.push(field);
+        return undefined;
+      });
 
-    const hash = await campaign.write.contribute([creatorFee, contributorFee], { 
-      value: amount,
-      account: this.account!,
-      chain: this.chain,
-    });
-    await this.publicClient.waitForTransactionReceipt({ hash });
-    
-    return hash;
+    const [
+      chainId,
+      implementation,
+      factory,
+      goalReachedStrategy,
+      actualDomainSeparator,
+      claimWindow,
+      refundWindow,
+      totalCreatorFee,
+      totalContributorFee,
+      goalBalance,
+      claimableBalance,
+    ] = await Promise.all([
+      this.getChainId(),
+      read('implementation', this.getCampaignImplementation(campaignAddress)),
+      read('factory', campaign.read.factory()),
+      read('goalReachedStrategy', campaign.read.goalReachedStrategy()),
+      read('domainSeparator', campaign.read.domainSeparator()),
+      read('claimWindow', campaign.read.claimWindow()),
+      read('refundWindow', campaign.read.refundWindow()),
+      read('totalCreatorFee', campaign.read.totalCreatorFee()),
+      read('totalContributorFee', campaign.read.totalContributorFee()),
+      read('goalBalance', campaign.read.goalBalance()),
+      read('claimableBalance', campaign.read.claimableBalance()),
+    ]);
+
+    const expectedDomainSeparator = domainSeparator({ domain: getAonDomain(chainId, campaignAddress) });
+    const checks = {
+      implementation: this.matchDeployment(chainId, 'implementation', implementation),
+      factory: this.matchDeployment(chainId, 'factory', factory),
+      goalReachedStrategy: this.matchDeployment(chainId, 'goalStrategy', goalReachedStrategy),
+      domainSeparator: expectedDomainSeparator.toLowerCase() === actualDomainSeparator?.toLowerCase(),
+    };
+
+    return {
+      address: campaignAddress,
+      chainId,
+      implementation,
+      version: implementation ? await this.getImplementationVersion(implementation) : undefined,
+      factory,
+      goalReachedStrategy,
+      domainSeparator: {
+        expected: expectedDomainSeparator,
+        actual: actualDomainSeparator,
+      },
+      checks,
+      state: {
+        claimWindow: claimWindow?.toString(),
+        refundWindow: refundWindow?.toString(),
+        totalCreatorFee: totalCreatorFee?.toString(),
+        totalContributorFee: totalContributorFee?.toString(),
+        goalBalance: goalBalance?.toString(),
+        claimableBalance: claimableBalance?.toString(),
+      },
+      unreadable,
+      healthy: checks.domainSeparator && [checks.implementation, checks.factory, checks.goalReachedStrategy].every((check) => check !== 'unknown'),
+    };
   }
 
-  async refund(campaignAddress: string, processingFeeInEther: string = '0'): Promise<Hash> {
-    if (!this.walletClient) {
-      throw new Error('Wallet client required for refund');
+  // Compares an address with the configured deployment, then with the manifests of earlier ones
+  private matchDeployment(chainId: number, contract: DeployedContractName, address: string | undefined): DeploymentMatch {
+    if (!address) {
+      return 'unknown';
+    }
+
+    if (config.getNetworkContract(this.networkKey, contract)?.toLowerCase() === address.toLowerCase()) {
+      return 'match';
     }
 
+    const recorded = listDeploymentManifests(chainId)
+      .some(({ manifest }) => manifest.contracts[contract]?.address.toLowerCase() === address.toLowerCase());
+    return recorded ? 'previous' : 'unknown';
+  }
+
+  async getGoalInfo(campaignAddress: string): Promise<{ goalBalance: string; goal: string }> {
     const campaign = getContract({
       address: campaignAddress as Address,
-      abi: AON_ABI,
-      client: { public: this.publicClient, wallet: this.walletClient },
+      abi: aonAbi,
+      client: this.publicClient,
     });
 
-    const processingFee = parseEther(processingFeeInEther);
+    const [goal, totalContributorFee, balance] = await Promise.all([
+      campaign.read.goal(),
+      campaign.read.totalContributorFee(),
+      this.publicClient.getBalance({ address: campaignAddress as Address }),
+    ]);
 
-    const hash = await campaign.write.refund([processingFee], {
-      account: this.account!,
-      chain: this.chain,
+    // Derived like getCampaignInfo, Aon.getGoalInfo() reverts after the Claimed and FundsSwiped events
+    const goalBalance = balance > totalContributorFee ? balance - totalContributorFee : 0n;
+
+    return {
+      goalBalance: formatEther(goalBalance),
+      goal: formatEther(goal),
+    };
+  }
+
+  watchCampaignEvents(
+    campaignAddresses: string[],
+    onEvent: (event: CampaignEvent) => void,
+    pollingInterval: number = 4000,
+    onError?: (error: Error) => void
+  ): () => void {
+    return this.publicClient.watchContractEvent({
+      address: campaignAddresses as Address[],
+      abi: aonAbi,
+      pollingInterval,
+      onError,
+      onLogs: (logs) => {
+        for (const log of logs) {
+          if (!log.eventName || log.eventName === 'Initialized') continue;
+
+          onEvent({
+            campaign: log.address,
+            name: log.eventName,
+            args: (log.args || {}) as Record<string, unknown>,
+            blockNumber: Number(log.blockNumber),
+            transactionHash: log.transactionHash,
+          });
+        }
+      },
     });
-    await this.publicClient.waitForTransactionReceipt({ hash });
-    
-    return hash;
   }
 
-  async claim(campaignAddress: string): Promise<Hash> {
-    if (!this.walletClient) {
-      throw new Error('Wallet client required for claiming');
+  watchCreatedCampaigns(
+    onCreated: (campaignAddress: string) => void,
+    pollingInterval: number = 4000,
+    onError?: (error: Error) => void
+  ): () => void {
+    const factoryAddress = config.getNetworkContract(this.networkKey, 'factory');
+
+    if (!factoryAddress) {
+      throw new Error('Factory contract not deployed on this network');
     }
 
-    const campaign = getContract({
-      address: campaignAddress as Address,
-      abi: AON_ABI,
-      client: { public: this.publicClient, wallet: this.walletClient },
+    return this.publicClient.watchContractEvent({
+      address: factoryAddress as Address,
+      abi: factoryAbi,
+      eventName: 'AonCreated',
+      pollingInterval,
+      onError,
+      onLogs: (logs) => logs.forEach((log) => onCreated(log.args.contractAddress!)),
     });
+  }
 
-    const hash = await campaign.write.claim({
-      account: this.account!,
-      chain: this.chain,
-    });
-    await this.publicClient.waitForTransactionReceipt({ hash });
-    
-    return hash;
+  async getLatestBlockTimestamp(): Promise<number> {
+    const block = await this.publicClient.getBlock();
+    return Number(block.timestamp);
   }
 
-  async cancel(campaignAddress: string): Promise<Hash> {
-    if (!this.walletClient) {
-      throw new Error('Wallet client required for cancellation');
-    }
+  async contribute(campaignAddress: string, amountInEther: string, creatorFeeInEther: string = '0', contributorFeeInEther: string = '0'): Promise<Hash> {
+    const receipt = await this.send(this.getContributeCall(campaignAddress, amountInEther, creatorFeeInEther, contributorFeeInEther));
+    return receipt.transactionHash;
+  }
 
-    const campaign = getContract({
-      address: campaignAddress as Address,
-      abi: AON_ABI,
-      client: { public: this.publicClient, wallet: this.walletClient },
-    });
+  // Contribution on behalf of another address, e.g. by an on-ramp that collected the payment off-chain
+  async contributeFor(
+    campaignAddress: string,
+    contributor: string,
+    amountInEther: string,
+    creatorFeeInEther: string = '0',
+    contributorFeeInEther: string = '0',
+    onSubmitted?: (hash: Hash) => void
+  ): Promise<Hash> {
+    const receipt = await this.send(
+      this.getContributeForCall(campaignAddress, contributor, amountInEther, creatorFeeInEther, contributorFeeInEther),
+      onSubmitted
+    );
+    return receipt.transactionHash;
+  }
 
-    const hash = await campaign.write.cancel({
-      account: this.account!,
-      chain: this.chain,
-    });
-    await this.publicClient.waitForTransactionReceipt({ hash });
-    
-    return hash;
+  async refund(campaignAddress: string, processingFeeInEther: string = '0'): Promise<Hash> {
+    const receipt = await this.send(this.getRefundCall(campaignAddress, processingFeeInEther));
+    return receipt.transactionHash;
+  }
+
+  async claim(campaignAddress: string, processingFeeInEther: string = '0'): Promise<Hash> {
+    const receipt = await this.send(this.getClaimCall(campaignAddress, processingFeeInEther));
+    return receipt.transactionHash;
+  }
+
+  async cancel(campaignAddress: string): Promise<Hash> {
+    const receipt = await this.send(this.getCancelCall(campaignAddress));
+    return receipt.transactionHash;
   }
 
   async getContributionInfo(campaignAddress: string, contributor: string, processingFeeInEther: string = '0'): Promise<ContributionInfo> {
     const campaign = getContract({
       address: campaignAddress as Address,
-      abi: AON_ABI,
+      abi: aonAbi,
       client: this.publicClient,
     });
     
@@ -425,9 +896,8 @@ export class ContractManager {
     
     try {
       const processingFee = parseEther(processingFeeInEther);
-      const refundResult = await campaign.read.canRefund([contributor as Address, processingFee]);
-      canRefund = refundResult[0] > 0n;
-      refundAmount = refundResult[0];
+      refundAmount = await campaign.read.getRefundAmount([contributor as Address, processingFee]);
+      canRefund = refundAmount > 0n;
     } catch (error) {
       // Handle revert - contribution cannot be refunded
       canRefund = false;
@@ -445,73 +915,1055 @@ export class ContractManager {
   async canClaim(campaignAddress: string, claimer: string): Promise<{ canClaim: boolean; creatorAmount: string; nonce: string; error?: string }> {
     const campaign = getContract({
       address: campaignAddress as Address,
-      abi: AON_ABI,
+      abi: aonAbi,
       client: this.publicClient,
     });
 
     try {
-      const result = await campaign.read.canClaim([claimer as Address]);
+      const [creatorAmount, nonce] = await Promise.all([
+        campaign.read.canClaim([claimer as Address]),
+        campaign.read.getNonce([claimer as Address]),
+      ]);
       return {
         canClaim: true,
-        creatorAmount: formatEther(result[0]),
-        nonce: result[1].toString(),
+        creatorAmount: formatEther(creatorAmount),
+        nonce: nonce.toString(),
       };
-    } catch (error: any) {
-      // Extract the contract error from the viem error
-      let errorMessage = 'Unknown error';
-      
-      // Check if viem decoded the error name
-      const errorName = error?.cause?.data?.errorName || error?.cause?.name || error?.name;
-      if (errorName) {
-        switch (errorName) {
-          case 'OnlyCreatorCanClaim':
-            errorMessage = 'Only the campaign creator can claim funds';
-            break;
-          case 'CannotClaimCancelledContract':
-            errorMessage = 'Cannot claim from cancelled campaign';
-            break;
-          case 'AlreadyClaimed':
-            errorMessage = 'Funds have already been claimed';
-            break;
-          case 'CannotClaimFailedContract':
-            errorMessage = 'Cannot claim from failed campaign';
-            break;
-          case 'CannotClaimUnclaimedContract':
-            errorMessage = 'Claim window has expired';
-            break;
-          case 'GoalNotReached':
-            errorMessage = 'Campaign goal has not been reached';
-            break;
-          default:
-            errorMessage = `Contract error: ${error.name}`;
-        }
-      } else {
-        // Fallback to string matching for older error formats
-        const errorString = error?.message || error?.details || JSON.stringify(error);
-        if (errorString.includes('OnlyCreatorCanClaim')) {
-          errorMessage = 'Only the campaign creator can claim funds';
-        } else if (errorString.includes('CannotClaimCancelledContract')) {
-          errorMessage = 'Cannot claim from cancelled campaign';
-        } else if (errorString.includes('AlreadyClaimed')) {
-          errorMessage = 'Funds have already been claimed';
-        } else if (errorString.includes('CannotClaimFailedContract')) {
-          errorMessage = 'Cannot claim from failed campaign';
-        } else if (errorString.includes('CannotClaimUnclaimedContract')) {
-          errorMessage = 'Claim window has expired';
-        } else if (errorString.includes('GoalNotReached')) {
-          errorMessage = 'Campaign goal has not been reached';
-        }
-      }
-      
+    } catch (error) {
       return {
         canClaim: false,
         creatorAmount: '0',
         nonce: '0',
-        error: errorMessage,
+        error: formatContractError(error),
       };
     }
   }
 
+  async signRefund(campaignAddress: string, params: SwapAuthorizationParams): Promise<SignatureData> {
+    if (!this.walletClient || !this.account) {
+      throw new Error('Wallet client required for signing');
+    }
+
+    const campaign = getContract({
+      address: campaignAddress as Address,
+      abi: aonAbi,
+      client: this.publicClient,
+    });
+
+    const contributor = this.account.address;
+    const processingFee = parseEther(params.processingFeeInEther);
+
+    // The signed amount must match what refundToSwapContract will compute on-chain
+    const [amount, nonce, chainId] = await Promise.all([
+      campaign.read.getRefundAmount([contributor, processingFee]),
+      campaign.read.getNonce([contributor]),
+      this.publicClient.getChainId(),
+    ]);
+
+    // refundToSwapContract zeroes the contribution whatever the amount, a zero refund forfeits it
+    if (amount === 0n) {
+      throw new Error('Nothing to refund: the goal is reached and the claim window is open, or the processing fee takes the whole contribution');
+    }
+
+    const message = {
+      contributor,
+      swapContract: params.swapContract as Address,
+      amount,
+      nonce,
+      deadline: BigInt(params.deadline),
+      processingFee,
+      preimageHash: params.preimageHash as `0x${string}`,
+      refundAddress: params.refundAddress as Address,
+    };
+
+    const signature = await this.walletClient.signTypedData({
+      account: this.account,
+      domain: getAonDomain(chainId, campaignAddress),
+      types: REFUND_TYPES,
+      primaryType: 'Refund',
+      message,
+    });
+
+    return {
+      type: 'refund',
+      campaign: campaignAddress,
+      chainId,
+      contributor,
+      swapContract: message.swapContract,
+      amount: amount.toString(),
+      nonce: nonce.toString(),
+      deadline: params.deadline,
+      processingFee: processingFee.toString(),
+      preimageHash: message.preimageHash,
+      refundAddress: message.refundAddress,
+      signature,
+    };
+  }
+
+  async signClaim(campaignAddress: string, params: SwapAuthorizationParams): Promise<SignatureData> {
+    if (!this.walletClient || !this.account) {
+      throw new Error('Wallet client required for signing');
+    }
+
+    const campaign = getContract({
+      address: campaignAddress as Address,
+      abi: aonAbi,
+      client: this.publicClient,
+    });
+
+    const creator = this.account.address;
+    const processingFee = parseEther(params.processingFeeInEther);
+
+    // canClaim reverts with the reason if the signer cannot claim
+    const [claimable, nonce, chainId] = await Promise.all([
+      campaign.read.canClaim([creator]),
+      campaign.read.getNonce([creator]),
+      this.publicClient.getChainId(),
+    ]);
+
+    // claimToSwapContract adds the processing fee to totalCreatorFee before computing the amount
+    if (processingFee > claimable) {
+      throw new Error('Processing fee cannot exceed the claimable amount');
+    }
+    const amount = claimable - processingFee;
+
+    const message = {
+      creator,
+      swapContract: params.swapContract as Address,
+      amount,
+      nonce,
+      deadline: BigInt(params.deadline),
+      processingFee,
+      preimageHash: params.preimageHash as `0x${string}`,
+      refundAddress: params.refundAddress as Address,
+    };
+
+    const signature = await this.walletClient.signTypedData({
+      account: this.account,
+      domain: getAonDomain(chainId, campaignAddress),
+      types: CLAIM_TYPES,
+      primaryType: 'Claim',
+      message,
+    });
+
+    return {
+      type: 'claim',
+      campaign: campaignAddress,
+      chainId,
+      creator,
+      swapContract: message.swapContract,
+      amount: amount.toString(),
+      nonce: nonce.toString(),
+      deadline: params.deadline,
+      processingFee: processingFee.toString(),
+      preimageHash: message.preimageHash,
+      refundAddress: message.refundAddress,
+      signature,
+    };
+  }
+
+  async getSwapAuthorizationState(bundle: SignatureData): Promise<SwapAuthorizationState> {
+    const campaign = getContract({
+      address: bundle.campaign as Address,
+      abi: aonAbi,
+      client: this.publicClient,
+    });
+
+    const signer = (bundle.type === 'refund' ? bundle.contributor : bundle.creator) as Address;
+    const processingFee = BigInt(bundle.processingFee);
+
+    const [nonce, chainId] = await Promise.all([
+      campaign.read.getNonce([signer]),
+      this.publicClient.getChainId(),
+    ]);
+
+    const amount = bundle.type === 'refund'
+      ? await campaign.read.getRefundAmount([signer, processingFee])
+      : (await campaign.read.canClaim([signer])) - processingFee;
+
+    return {
+      amount: amount.toString(),
+      nonce: nonce.toString(),
+      chainId,
+    };
+  }
+
+  async refundToSwapContract(bundle: SignatureData, lockParams: SwapContractLockParams): Promise<Hash> {
+    const receipt = await this.send(this.getRefundToSwapContractCall(bundle, lockParams));
+    return receipt.transactionHash;
+  }
+
+  async claimToSwapContract(bundle: SignatureData, lockParams: SwapContractLockParams): Promise<SwapClaimResult> {
+    const receipt = await this.send(this.getClaimToSwapContractCall(bundle, lockParams));
+
+    const [claimed] = parseEventLogs({
+      abi: aonAbi,
+      eventName: 'Claimed',
+      logs: receipt.logs,
+    });
+
+    if (!claimed) {
+      throw new Error('Claimed event not found');
+    }
+
+    return {
+      hash: receipt.transactionHash,
+      swapAmount: formatEther(claimed.args.creatorAmount),
+      creatorFeeAmount: formatEther(claimed.args.creatorFeeAmount),
+      contributorFeeAmount: formatEther(claimed.args.contributorFeeAmount),
+    };
+  }
+
+  async getFactoryInfo(): Promise<FactoryInfo> {
+    const factoryAddress = config.getNetworkContract(this.networkKey, 'factory');
+
+    if (!factoryAddress) {
+      throw new Error('Factory contract not deployed on this network');
+    }
+
+    const factory = getContract({
+      address: factoryAddress as Address,
+      abi: factoryAbi,
+      client: this.publicClient,
+    });
+
+    const [owner, implementation, feeRecipient, swipeRecipient] = await Promise.all([
+      factory.read.owner(),
+      factory.read.implementation(),
+      factory.read.feeRecipient(),
+      factory.read.swipeRecipient(),
+    ]);
+
+    return {
+      address: factoryAddress,
+      owner,
+      implementation,
+      feeRecipient,
+      swipeRecipient,
+    };
+  }
+
+  /**
+   * Deploys the Aon implementation from out/ and records it in a deployment manifest, next to the
+   * factory's other contracts, so campaigns created from it are recognized as a known deployment.
+   */
+  async deployImplementation(): Promise<ImplementationDeployment> {
+    if (!this.account) {
+      throw new Error('Wallet client required for deployment');
+    }
+
+    const { aonArtifact } = this.loadDeploymentArtifacts();
+    const [aonCall] = this.getContractDeploymentCalls();
+    const receipt = await this.send(aonCall);
+
+    const chainId = await this.getChainId();
+    const factoryAddress = config.getNetworkContract(this.networkKey, 'factory');
+    const previous = factoryAddress ? findDeploymentManifest(chainId, factoryAddress) : undefined;
+    const manifest = writeDeploymentManifest({
+      version: 1,
+      network: this.networkKey,
+      chainId,
+      deployer: this.account.address,
+      deployedAt: new Date().toISOString(),
+      contracts: {
+        ...previous?.manifest.contracts,
+        implementation: {
+          artifact: 'Aon',
+          address: receipt.contractAddress!,
+          transactionHash: receipt.transactionHash,
+          blockNumber: Number(receipt.blockNumber),
+          gasUsed: receipt.gasUsed.toString(),
+          constructorArgs: {},
+          bytecodeHash: keccak256(aonArtifact.bytecode.object),
+          deployedBytecodeHash: keccak256(aonArtifact.deployedBytecode.object),
+        },
+      },
+    });
+
+    return {
+      address: receipt.contractAddress!,
+      transactionHash: receipt.transactionHash,
+      blockNumber: Number(receipt.blockNumber),
+      version: await this.getImplementationVersion(receipt.contractAddress!),
+      manifest,
+    };
+  }
+
+  // VERSION of the Aon implementation in out/, read with an eth_call of its creation code before paying to deploy it
+  async getArtifactImplementationVersion(): Promise<number | undefined> {
+    const { aonArtifact } = this.loadDeploymentArtifacts();
+    try {
+      const { data } = await this.publicClient.call({
+        code: aonArtifact.bytecode.object,
+        data: encodeFunctionData({ abi: aonAbi, functionName: 'VERSION' }),
+      });
+      return data ? decodeFunctionResult({ abi: aonAbi, functionName: 'VERSION', data }) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Aon.VERSION is a constant, so it can be read from the implementation itself
+  async getImplementationVersion(implementation: string): Promise<number | undefined> {
+    try {
+      return await this.publicClient.readContract({
+        address: implementation as Address,
+        abi: aonAbi,
+        functionName: 'VERSION',
+      });
+    } catch {
+      return undefined;
+    }
+  }
+
+  // The implementation is immutable in AonProxy, setImplementation only affects new campaigns
+  async getCampaignImplementation(campaignAddress: string): Promise<string> {
+    return this.publicClient.readContract({
+      address: campaignAddress as Address,
+      abi: aonProxyAbi,
+      functionName: 'implementation',
+    });
+  }
+
+  async setImplementation(implementation: string): Promise<Hash> {
+    const receipt = await this.send(this.getFactoryAdminCall('setImplementation', implementation));
+    return receipt.transactionHash;
+  }
+
+  async setFeeRecipient(feeRecipient: string): Promise<Hash> {
+    const receipt = await this.send(this.getFactoryAdminCall('setFeeRecipient', feeRecipient));
+    return receipt.transactionHash;
+  }
+
+  async setSwipeRecipient(swipeRecipient: string): Promise<Hash> {
+    const receipt = await this.send(this.getFactoryAdminCall('setSwipeRecipient', swipeRecipient));
+    return receipt.transactionHash;
+  }
+
+  async transferOwnership(newOwner: string): Promise<Hash> {
+    const receipt = await this.send(this.getFactoryAdminCall('transferOwnership', newOwner));
+    return receipt.transactionHash;
+  }
+
+  async getSwipePreview(campaignAddress: string): Promise<SwipePreview> {
+    const campaign = getContract({
+      address: campaignAddress as Address,
+      abi: aonAbi,
+      client: this.publicClient,
+    });
+
+    const [endTime, claimWindow, refundWindow, totalCreatorFee, totalContributorFee, balance, block] =
+      await Promise.all([
+        campaign.read.endTime(),
+        campaign.read.claimWindow(),
+        campaign.read.refundWindow(),
+        campaign.read.totalCreatorFee(),
+        campaign.read.totalContributorFee(),
+        this.publicClient.getBalance({ address: campaignAddress as Address }),
+        this.publicClient.getBlock(),
+      ]);
+
+    // isUnclaimed() asks the goal strategy unless the stored status is Unclaimed, and the strategy's
+    // goalBalance() underflows once a claim or swipe left less than the contributor fees. An empty
+    // campaign has nothing to swipe, so only ask when there is a balance.
+    const isUnclaimed = balance > 0n ? await campaign.read.isUnclaimed() : false;
+
+    // Both fees if unclaimed, contributor fees otherwise (see Aon.swipeFunds)
+    const fees = isUnclaimed ? totalCreatorFee + totalContributorFee : totalContributorFee;
+    // swipeFunds sends balance - fees without a cap, so it reverts when the fees exceed the balance
+    const feesExceedBalance = balance > 0n && fees > balance;
+
+    // Same rules as Aon.isValidSwipe, evaluated against the latest block time
+    const eligibleAt = endTime + BigInt(claimWindow) + BigInt(refundWindow);
+    const eligible = block.timestamp > eligibleAt && balance > 0n && !feesExceedBalance;
+
+    return {
+      campaign: campaignAddress,
+      eligible,
+      eligibleAt: Number(eligibleAt),
+      balance: formatEther(balance),
+      feeRecipientAmount: formatEther(fees),
+      swipeRecipientAmount: formatEther(balance > fees ? balance - fees : 0n),
+      feesExceedBalance,
+      isUnclaimed,
+    };
+  }
+
+  async swipeFunds(campaignAddress: string): Promise<SwipeResult> {
+    const receipt = await this.send(this.getSwipeFundsCall(campaignAddress));
+
+    const [swiped] = parseEventLogs({
+      abi: aonAbi,
+      eventName: 'FundsSwiped',
+      logs: receipt.logs,
+    });
+
+    if (!swiped) {
+      throw new Error('FundsSwiped event not found');
+    }
+
+    return {
+      hash: receipt.transactionHash,
+      recipient: swiped.args.recipient,
+      feeRecipientAmount: formatEther(swiped.args.feeRecipientAmount),
+      recipientAmount: formatEther(swiped.args.recipientAmount),
+    };
+  }
+
+  /*
+   * Transaction calls: every write is built as a plain call first, so the same call can be sent,
+   * simulated (--dry-run) or exported for offline signing (--unsigned).
+   */
+
+  /**
+   * The three deployment transactions, with the factory pointing at the implementation address the
+   * first transaction will create, predicted from the deployer's nonce.
+   */
+  async getDeploymentCalls(options: DeploymentOptions = {}): Promise<TransactionCall[]> {
+    if (!this.account) {
+      throw new Error('Signer required for deployment');
+    }
+
+    const nonce = this.nextNonce ?? await this.publicClient.getTransactionCount({
+      address: this.account.address,
+      blockTag: 'pending',
+    });
+    const implementation = getContractAddress({ from: this.account.address, nonce: BigInt(nonce) });
+
+    return [...this.getContractDeploymentCalls(), this.getFactoryDeploymentCall(options, implementation)];
+  }
+
+  // Neither the Aon implementation nor the goal strategy take constructor arguments
+  private getContractDeploymentCalls(): TransactionCall[] {
+    const { aonArtifact, goalStrategyArtifact } = this.loadDeploymentArtifacts();
+
+    return [
+      { label: 'Aon implementation', data: aonArtifact.bytecode.object },
+      { label: 'Goal strategy', data: goalStrategyArtifact.bytecode.object },
+    ];
+  }
+
+  private getFactoryDeploymentCall(options: DeploymentOptions, implementation: Address): TransactionCall {
+    // Factory roles default to the deployer
+    const owner = (options.owner || this.account!.address) as Address;
+    const feeRecipient = (options.feeRecipient || this.account!.address) as Address;
+    const swipeRecipient = (options.swipeRecipient || this.account!.address) as Address;
+
+    const { factoryArtifact } = this.loadDeploymentArtifacts();
+
+    return {
+      label: 'Factory',
+      data: encodeDeployData({
+        abi: factoryAbi,
+        bytecode: factoryArtifact.bytecode.object,
+        args: [implementation, swipeRecipient, feeRecipient, owner],
+      }),
+    };
+  }
+
+  getCreateCampaignCall(
+    creator: string,
+    goalInEther: string,
+    durationInSeconds: number,
+    claimWindow: number,
+    refundWindow: number
+  ): TransactionCall {
+    const factoryAddress = config.getNetworkContract(this.networkKey, 'factory');
+    const goalStrategyAddress = config.getNetworkContract(this.networkKey, 'goalStrategy');
+    
+    if (!factoryAddress || !goalStrategyAddress) {
+      throw new Error('Factory or goal strategy contract not deployed on this network');
+    }
+
+    return {
+      label: 'Create',
+      to: factoryAddress as Address,
+      data: encodeFunctionData({
+        abi: factoryAbi,
+        functionName: 'create',
+        args: [
+          creator as Address,
+          parseEther(goalInEther),
+          durationInSeconds,
+          goalStrategyAddress as Address,
+          claimWindow,
+          refundWindow,
+        ],
+      }),
+    };
+  }
+
+  getContributeCall(
+    campaignAddress: string,
+    amountInEther: string,
+    creatorFeeInEther: string = '0',
+    contributorFeeInEther: string = '0'
+  ): TransactionCall {
+    return {
+      label: 'Contribute',
+      to: campaignAddress as Address,
+      data: encodeFunctionData({
+        abi: aonAbi,
+        functionName: 'contribute',
+        args: [parseEther(creatorFeeInEther), parseEther(contributorFeeInEther)],
+      }),
+      value: parseEther(amountInEther),
+    };
+  }
+
+  getContributeForCall(
+    campaignAddress: string,
+    contributor: string,
+    amountInEther: string,
+    creatorFeeInEther: string = '0',
+    contributorFeeInEther: string = '0'
+  ): TransactionCall {
+    return {
+      label: 'Contribute for',
+      to: campaignAddress as Address,
+      data: encodeFunctionData({
+        abi: aonAbi,
+        functionName: 'contributeFor',
+        args: [contributor as Address, parseEther(creatorFeeInEther), parseEther(contributorFeeInEther)],
+      }),
+      value: parseEther(amountInEther),
+    };
+  }
+
+  getRefundCall(campaignAddress: string, processingFeeInEther: string = '0'): TransactionCall {
+    return {
+      label: 'Refund',
+      to: campaignAddress as Address,
+      data: encodeFunctionData({ abi: aonAbi, functionName: 'refund', args: [parseEther(processingFeeInEther)] }),
+    };
+  }
+
+  getClaimCall(campaignAddress: string, processingFeeInEther: string = '0'): TransactionCall {
+    return {
+      label: 'Claim',
+      to: campaignAddress as Address,
+      data: encodeFunctionData({ abi: aonAbi, functionName: 'claim', args: [parseEther(processingFeeInEther)] }),
+    };
+  }
+
+  getCancelCall(campaignAddress: string): TransactionCall {
+    return {
+      label: 'Cancel',
+      to: campaignAddress as Address,
+      data: encodeFunctionData({ abi: aonAbi, functionName: 'cancel' }),
+    };
+  }
+
+  getRefundToSwapContractCall(bundle: SignatureData, lockParams: SwapContractLockParams): TransactionCall {
+    return {
+      label: 'Refund to swap contract',
+      to: bundle.campaign as Address,
+      data: encodeFunctionData({
+        abi: aonAbi,
+        functionName: 'refundToSwapContract',
+        args: [
+          bundle.contributor as Address,
+          bundle.swapContract as Address,
+          BigInt(bundle.deadline),
+          bundle.signature as Hex,
+          BigInt(bundle.processingFee),
+          toLockParams(lockParams),
+        ],
+      }),
+    };
+  }
+
+  getClaimToSwapContractCall(bundle: SignatureData, lockParams: SwapContractLockParams): TransactionCall {
+    return {
+      label: 'Claim to swap contract',
+      to: bundle.campaign as Address,
+      data: encodeFunctionData({
+        abi: aonAbi,
+        functionName: 'claimToSwapContract',
+        args: [
+          bundle.swapContract as Address,
+          BigInt(bundle.deadline),
+          bundle.signature as Hex,
+          BigInt(bundle.processingFee),
+          toLockParams(lockParams),
+        ],
+      }),
+    };
+  }
+
+  getFactoryAdminCall(
+    functionName: 'setImplementation' | 'setFeeRecipient' | 'setSwipeRecipient' | 'transferOwnership',
+    address: string
+  ): TransactionCall {
+    const factoryAddress = config.getNetworkContract(this.networkKey, 'factory');
+
+    if (!factoryAddress) {
+      throw new Error('Factory contract not deployed on this network');
+    }
+
+    return {
+      label: functionName,
+      to: factoryAddress as Address,
+      data: encodeFunctionData({ abi: factoryAbi, functionName, args: [address as Address] }),
+    };
+  }
+
+  getSwipeFundsCall(campaignAddress: string): TransactionCall {
+    return {
+      label: 'Swipe funds',
+      to: campaignAddress as Address,
+      data: encodeFunctionData({ abi: aonAbi, functionName: 'swipeFunds' }),
+    };
+  }
+
+  /*
+   * Transaction submission: Rootstock has no EIP-1559 fee market, so writes are sent as legacy
+   * transactions priced at or above the block minimumGasPrice and awaited for the configured
+   * number of confirmations. Stuck transactions are replaced with the same nonce.
+   */
+
+  /**
+   * The node's gas price, raised to the latest block's minimumGasPrice plus a margin. RSK nodes
+   * reject transactions priced below the minimum, which miners can move by up to 1% per block.
+   */
+  async getGasPrice(): Promise<bigint> {
+    const [gasPrice, block] = await Promise.all([
+      this.publicClient.getGasPrice(),
+      this.publicClient.getBlock(),
+    ]);
+
+    // RSK-specific block field, absent on other nodes
+    const minimumGasPrice = (block as { minimumGasPrice?: Hex }).minimumGasPrice;
+    const floor = minimumGasPrice ? hexToBigInt(minimumGasPrice) * 110n / 100n : 0n;
+
+    return gasPrice > floor ? gasPrice : floor;
+  }
+
+  private async getTransactionOverrides() {
+    const nonce = this.nextNonce;
+    if (nonce !== undefined) {
+      this.nextNonce = nonce + 1;
+    }
+
+    return {
+      type: 'legacy' as const,
+      gasPrice: this.transactionOptions.gasPrice ?? await this.getGasPrice(),
+      gas: this.transactionOptions.gasLimit,
+      nonce,
+    };
+  }
+
+  private async send(call: TransactionCall, onSubmitted?: (hash: Hash) => void): Promise<TransactionReceipt> {
+    if (!this.walletClient || !this.account) {
+      throw new Error('Wallet client required for sending transactions');
+    }
+
+    const overrides = await this.getTransactionOverrides();
+    let hash: Hash;
+    try {
+      hash = await this.walletClient.sendTransaction({
+        account: this.account,
+        chain: this.chain,
+        to: call.to,
+        data: call.data,
+        value: call.value,
+        ...overrides,
+      });
+    } catch (error) {
+      // Nothing was sent, so an explicit nonce stays free for the next transaction
+      if (overrides.nonce !== undefined) {
+        this.nextNonce = overrides.nonce;
+      }
+      throw error;
+    }
+    onSubmitted?.(hash);
+
+    return this.waitForReceipt(hash);
+  }
+
+  /**
+   * Waits for the configured confirmations. If the transaction was replaced (see replaceTransaction),
+   * the receipt is the replacement's.
+   */
+  private async waitForReceipt(hash: Hash): Promise<TransactionReceipt> {
+    const { confirmations = 1, timeout = 300 } = this.transactionOptions;
+
+    let receipt: TransactionReceipt;
+    try {
+      receipt = await this.publicClient.waitForTransactionReceipt({ hash, confirmations, timeout: timeout * 1000 });
+    } catch (error) {
+      if (error instanceof WaitForTransactionReceiptTimeoutError) {
+        throw new Error(
+          `Transaction ${hash} was not confirmed within ${timeout} seconds and may still be pending. ` +
+          `Replace it with "aon-cli tx speedup ${hash}" or "aon-cli tx cancel ${hash}"`
+        );
+      }
+      throw error;
+    }
+
+    if (receipt.status === 'reverted') {
+      throw new Error(`Transaction ${receipt.transactionHash} reverted`);
+    }
+
+    return receipt;
+  }
+
+  /**
+   * Resends a pending transaction with the same nonce and a higher gas price: `speedup` repeats the
+   * call, `cancel` sends nothing to the signer itself. Nodes only accept the replacement if it
+   * outbids the pending transaction by their price bump (40% on RSK, 10% on geth and Anvil).
+   */
+  async replaceTransaction(hash: string, mode: 'speedup' | 'cancel', bumpPercent: number): Promise<TransactionReplacement> {
+    if (!this.walletClient || !this.account) {
+      throw new Error('Wallet client required for replacing a transaction');
+    }
+
+    const original = await this.publicClient.getTransaction({ hash: hash as Hash });
+
+    if (original.blockNumber !== null) {
+      throw new Error(`Transaction was already mined in block ${original.blockNumber}, there is nothing to replace`);
+    }
+
+    if (original.from.toLowerCase() !== this.account.address.toLowerCase()) {
+      throw new Error(`Transaction was sent by ${original.from}, replace it with that account`);
+    }
+
+    // EIP-1559 transactions (e.g. on Anvil) must be outbid on their max fee
+    const previousGasPrice = original.maxFeePerGas ?? original.gasPrice ?? 0n;
+    const bumped = previousGasPrice * BigInt(100 + bumpPercent) / 100n;
+    const marketPrice = await this.getGasPrice();
+    const gasPrice = this.transactionOptions.gasPrice ?? (bumped > marketPrice ? bumped : marketPrice);
+
+    if (gasPrice <= previousGasPrice) {
+      throw new Error(`Gas price must exceed the pending ${formatGwei(previousGasPrice)} gwei`);
+    }
+
+    const call = mode === 'speedup'
+      ? { to: original.to, data: original.input, value: original.value, gas: this.transactionOptions.gasLimit ?? original.gas }
+      : { to: this.account.address, value: 0n, gas: 21000n };
+
+    const replacementHash = await this.walletClient.sendTransaction({
+      ...call,
+      account: this.account,
+      chain: this.chain,
+      type: 'legacy',
+      gasPrice,
+      nonce: original.nonce,
+    });
+
+    // Resolves with the original's receipt if it still got mined first
+    const receipt = await this.waitForReceipt(replacementHash);
+
+    return {
+      originalHash: hash,
+      hash: receipt.transactionHash,
+      nonce: original.nonce,
+      previousGasPrice: previousGasPrice.toString(),
+      gasPrice: gasPrice.toString(),
+      blockNumber: Number(receipt.blockNumber),
+    };
+  }
+
+  /**
+   * Fills in nonce, gas and gas price so the calls can be signed offline with "aon-cli tx sign".
+   * Only the sender address is needed, the signing key never touches this machine.
+   */
+  async buildUnsignedTransactions(action: string, calls: TransactionCall[]): Promise<UnsignedTransactionFile> {
+    if (!this.account) {
+      throw new Error('Sender address required for unsigned transactions');
+    }
+
+    const from = this.account.address;
+    const [chainId, nonce, gasPrice] = await Promise.all([
+      this.publicClient.getChainId(),
+      this.nextNonce ?? this.publicClient.getTransactionCount({ address: from, blockTag: 'pending' }),
+      this.transactionOptions.gasPrice ?? this.getGasPrice(),
+    ]);
+
+    const transactions: UnsignedTransaction[] = [];
+    for (const [index, call] of calls.entries()) {
+      const gas = this.transactionOptions.gasLimit
+        ?? await this.publicClient.estimateGas({ account: from, to: call.to, data: call.data, value: call.value });
+
+      transactions.push({
+        label: call.label,
+        to: call.to ?? null,
+        data: call.data,
+        value: (call.value ?? 0n).toString(),
+        nonce: nonce + index,
+        gas: gas.toString(),
+        gasPrice: gasPrice.toString(),
+        chainId,
+      });
+    }
+
+    return { version: 1, action, network: this.networkKey, from, transactions };
+  }
+
+  async broadcastTransaction(serializedTransaction: Hex): Promise<BroadcastResult> {
+    const hash = await this.publicClient.sendRawTransaction({ serializedTransaction });
+    const receipt = await this.waitForReceipt(hash);
+
+    return {
+      hash: receipt.transactionHash,
+      blockNumber: Number(receipt.blockNumber),
+      gasUsed: receipt.gasUsed.toString(),
+      contractAddress: receipt.contractAddress ?? undefined,
+    };
+  }
+
+  async getChainId(): Promise<number> {
+    return this.publicClient.getChainId();
+  }
+
+  /*
+   * Dry runs: every transaction is executed with eth_call against the latest block, and its
+   * balance effects are predicted from the same state the contract reads (see Aon.sol).
+   */
+
+  private async dryRun(
+    action: string,
+    calls: TransactionCall[],
+    predictChanges: () => Promise<PredictedBalanceChange[]>
+  ): Promise<DryRunResult> {
+    if (!this.account) {
+      throw new Error('Signer required for a dry run');
+    }
+
+    const from = this.account.address;
+    const value = calls.reduce((total, call) => total + (call.value ?? 0n), 0n);
+    const gasPrice = this.transactionOptions.gasPrice ?? await this.getGasPrice();
+
+    let gasEstimate = 0n;
+    let revertReason: string | undefined;
+
+    for (const call of calls) {
+      try {
+        await this.publicClient.call({ account: from, to: call.to, data: call.data, value: call.value });
+        gasEstimate += await this.publicClient.estimateGas({ account: from, to: call.to, data: call.data, value: call.value });
+      } catch (error) {
+        const reason = formatContractError(error);
+        revertReason = calls.length > 1 ? `${call.label}: ${reason}` : reason;
+        break;
+      }
+    }
+
+    const success = revertReason === undefined;
+    const gasCost = success ? gasEstimate * gasPrice : 0n;
+
+    // Balance changes are only meaningful if the transaction goes through
+    const balanceChanges: BalanceChange[] = [];
+    if (success) {
+      const predicted = [
+        { label: 'sender', address: from, delta: -(value + gasCost) },
+        ...await predictChanges(),
+      ];
+
+      // Merge roles that share an address, e.g. a creator claiming their own campaign
+      const merged = new Map<string, { labels: string[]; address: Address; delta: bigint }>();
+      for (const change of predicted) {
+        const key = change.address.toLowerCase();
+        const entry = merged.get(key) || { labels: [], address: change.address, delta: 0n };
+        if (!entry.labels.includes(change.label)) {
+          entry.labels.push(change.label);
+        }
+        entry.delta += change.delta;
+        merged.set(key, entry);
+      }
+
+      for (const entry of merged.values()) {
+        const before = await this.publicClient.getBalance({ address: entry.address });
+        balanceChanges.push({
+          label: entry.labels.join(', '),
+          address: entry.address,
+          before: formatEther(before),
+          after: formatEther(before + entry.delta),
+          delta: formatEther(entry.delta),
+        });
+      }
+    }
+
+    return {
+      action,
+      from,
+      to: calls.length === 1 ? calls[0].to : undefined,
+      value: formatEther(value),
+      success,
+      revertReason,
+      gasEstimate: success ? gasEstimate.toString() : undefined,
+      gasPrice: gasPrice.toString(),
+      gasCost: formatEther(gasCost),
+      totalCost: formatEther(value + gasCost),
+      balanceChanges,
+    };
+  }
+
+  private async getCampaignFeeRecipient(campaignAddress: string): Promise<Address> {
+    const factory = await this.publicClient.readContract({
+      address: campaignAddress as Address,
+      abi: aonAbi,
+      functionName: 'factory',
+    });
+
+    return this.publicClient.readContract({
+      address: factory,
+      abi: factoryAbi,
+      functionName: 'feeRecipient',
+    });
+  }
+
+  async dryRunDeployment(options: DeploymentOptions = {}): Promise<DryRunResult> {
+    return this.dryRun('deploy', await this.getDeploymentCalls(options), async () => []);
+  }
+
+  async dryRunCreateCampaign(
+    creator: string,
+    goalInEther: string,
+    durationInSeconds: number,
+    claimWindow: number,
+    refundWindow: number
+  ): Promise<DryRunResult> {
+    const call = this.getCreateCampaignCall(creator, goalInEther, durationInSeconds, claimWindow, refundWindow);
+
+    return this.dryRun('campaign create', [call], async () => [
+      { label: 'creator', address: creator as Address, delta: 0n },
+    ]);
+  }
+
+  async dryRunContribute(
+    campaignAddress: string,
+    amountInEther: string,
+    creatorFeeInEther: string = '0',
+    contributorFeeInEther: string = '0'
+  ): Promise<DryRunResult> {
+    const campaign = campaignAddress as Address;
+    const amount = parseEther(amountInEther);
+    const call = this.getContributeCall(campaignAddress, amountInEther, creatorFeeInEther, contributorFeeInEther);
+
+    return this.dryRun('contribute', [call], async () => {
+      // Fees stay in the campaign until it is claimed or swiped
+      const [creator, feeRecipient] = await Promise.all([
+        this.publicClient.readContract({ address: campaign, abi: aonAbi, functionName: 'creator' }),
+        this.getCampaignFeeRecipient(campaignAddress),
+      ]);
+
+      return [
+        { label: 'campaign', address: campaign, delta: amount },
+        { label: 'creator', address: creator, delta: 0n },
+        { label: 'fee recipient', address: feeRecipient, delta: 0n },
+      ];
+    });
+  }
+
+  async dryRunRefund(campaignAddress: string, processingFeeInEther: string = '0'): Promise<DryRunResult> {
+    const campaign = campaignAddress as Address;
+    const processingFee = parseEther(processingFeeInEther);
+
+    return this.dryRun('refund', [this.getRefundCall(campaignAddress, processingFeeInEther)], async () => {
+      const [refundAmount, creator, feeRecipient] = await Promise.all([
+        this.publicClient.readContract({
+          address: campaign,
+          abi: aonAbi,
+          functionName: 'getRefundAmount',
+          args: [this.account!.address, processingFee],
+        }),
+        this.publicClient.readContract({ address: campaign, abi: aonAbi, functionName: 'creator' }),
+        this.getCampaignFeeRecipient(campaignAddress),
+      ]);
+
+      return [
+        { label: 'sender', address: this.account!.address, delta: refundAmount },
+        { label: 'campaign', address: campaign, delta: -(refundAmount + processingFee) },
+        { label: 'creator', address: creator, delta: 0n },
+        { label: 'fee recipient', address: feeRecipient, delta: processingFee },
+      ];
+    });
+  }
+
+  async dryRunClaim(campaignAddress: string, processingFeeInEther: string = '0'): Promise<DryRunResult> {
+    const campaign = campaignAddress as Address;
+    const processingFee = parseEther(processingFeeInEther);
+
+    return this.dryRun('claim', [this.getClaimCall(campaignAddress, processingFeeInEther)], async () => {
+      const [creator, feeRecipient, balance, platformAmount] = await Promise.all([
+        this.publicClient.readContract({ address: campaign, abi: aonAbi, functionName: 'creator' }),
+        this.getCampaignFeeRecipient(campaignAddress),
+        this.publicClient.getBalance({ address: campaign }),
+        this.getClaimPlatformAmount(campaign, processingFee),
+      ]);
+
+      return [
+        { label: 'campaign', address: campaign, delta: -balance },
+        { label: 'creator', address: creator, delta: balance - platformAmount },
+        { label: 'fee recipient', address: feeRecipient, delta: platformAmount },
+      ];
+    });
+  }
+
+  async dryRunCancel(campaignAddress: string): Promise<DryRunResult> {
+    const campaign = campaignAddress as Address;
+
+    return this.dryRun('campaign cancel', [this.getCancelCall(campaignAddress)], async () => {
+      // Cancelling only changes the status, contributors refund themselves afterwards
+      const [creator, feeRecipient] = await Promise.all([
+        this.publicClient.readContract({ address: campaign, abi: aonAbi, functionName: 'creator' }),
+        this.getCampaignFeeRecipient(campaignAddress),
+      ]);
+
+      return [
+        { label: 'campaign', address: campaign, delta: 0n },
+        { label: 'creator', address: creator, delta: 0n },
+        { label: 'fee recipient', address: feeRecipient, delta: 0n },
+      ];
+    });
+  }
+
+  async dryRunRefundToSwapContract(bundle: SignatureData, lockParams: SwapContractLockParams): Promise<DryRunResult> {
+    const campaign = bundle.campaign as Address;
+    const processingFee = BigInt(bundle.processingFee);
+
+    return this.dryRun('refund', [this.getRefundToSwapContractCall(bundle, lockParams)], async () => {
+      const feeRecipient = await this.getCampaignFeeRecipient(bundle.campaign);
+
+      return [
+        { label: 'campaign', address: campaign, delta: -(BigInt(bundle.amount) + processingFee) },
+        { label: 'swap contract', address: bundle.swapContract as Address, delta: BigInt(bundle.amount) },
+        { label: 'fee recipient', address: feeRecipient, delta: processingFee },
+      ];
+    });
+  }
+
+  async dryRunClaimToSwapContract(bundle: SignatureData, lockParams: SwapContractLockParams): Promise<DryRunResult> {
+    const campaign = bundle.campaign as Address;
+    const processingFee = BigInt(bundle.processingFee);
+
+    return this.dryRun('claim', [this.getClaimToSwapContractCall(bundle, lockParams)], async () => {
+      const [creator, feeRecipient, balance, platformAmount] = await Promise.all([
+        this.publicClient.readContract({ address: campaign, abi: aonAbi, functionName: 'creator' }),
+        this.getCampaignFeeRecipient(bundle.campaign),
+        this.publicClient.getBalance({ address: campaign }),
+        this.getClaimPlatformAmount(campaign, processingFee),
+      ]);
+
+      return [
+        { label: 'campaign', address: campaign, delta: -balance },
+        { label: 'swap contract', address: bundle.swapContract as Address, delta: balance - platformAmount },
+        { label: 'creator', address: creator, delta: 0n },
+        { label: 'fee recipient', address: feeRecipient, delta: platformAmount },
+      ];
+    });
+  }
+
+  // Claims add the processing fee to the creator fees, and all fees go to the fee recipient
+  private async getClaimPlatformAmount(campaign: Address, processingFee: bigint): Promise<bigint> {
+    const [totalCreatorFee, totalContributorFee] = await Promise.all([
+      this.publicClient.readContract({ address: campaign, abi: aonAbi, functionName: 'totalCreatorFee' }),
+      this.publicClient.readContract({ address: campaign, abi: aonAbi, functionName: 'totalContributorFee' }),
+    ]);
+
+    return totalCreatorFee + processingFee + totalContributorFee;
+  }
+
   get signer() {
     return this.account;
   }
@@ -0,0 +1,128 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { type Hex } from 'viem';
+import { config } from './config';
+import { BytecodeStatus, DeploymentCheckpoint, DeploymentManifest } from '../types';
+
+/*
+ * Deployment manifests are the audit trail of every environment: one JSON file per deployment under
+ * ~/.aon-cli/deployments/<chainId>/, never overwritten. "aon-cli deploy verify" checks the live
+ * contracts against the local Foundry artifacts.
+ *
+ * Next to them, checkpoint.json tracks an unfinished deploy pipeline of the chain, so a rerun after a
+ * failure only deploys what is missing. It is removed once the deployment completes.
+ */
+
+const CHECKPOINT_FILE = 'checkpoint.json';
+
+// Byte ranges of immutable variables, filled in by the constructor and zeroed in the artifact
+export type ImmutableReferences = Record<string, { start: number; length: number }[]>;
+
+// The parts of a Foundry artifact (out/<File>.sol/<Contract>.json) the CLI deploys and verifies
+export interface FoundryArtifact {
+  bytecode: { object: Hex };
+  deployedBytecode: { object: Hex; immutableReferences?: ImmutableReferences };
+}
+
+function getManifestDir(chainId: number): string {
+  return resolve(config.getDeploymentsDir(), String(chainId));
+}
+
+export function writeDeploymentManifest(manifest: DeploymentManifest): string {
+  const dir = getManifestDir(manifest.chainId);
+  mkdirSync(dir, { recursive: true });
+
+  const { address } = manifest.contracts.factory ?? manifest.contracts.implementation!;
+  const path = resolve(dir, `${manifest.deployedAt.replace(/[:.]/g, '-')}-${address}.json`);
+  writeFileSync(path, JSON.stringify(manifest, null, 2) + '\n', { encoding: 'utf8', flag: 'wx' });
+  return path;
+}
+
+/**
+ * The manifests of a chain, oldest first.
+ */
+export function listDeploymentManifests(chainId: number): { path: string; manifest: DeploymentManifest }[] {
+  const dir = getManifestDir(chainId);
+  if (!existsSync(dir)) {
+    return [];
+  }
+
+  return readdirSync(dir)
+    .filter((file) => file.endsWith('.json') && file !== CHECKPOINT_FILE)
+    .sort()
+    .map((file) => {
+      const path = resolve(dir, file);
+      return { path, manifest: JSON.parse(readFileSync(path, 'utf8')) as DeploymentManifest };
+    });
+}
+
+export function findDeploymentManifest(chainId: number, factory: string): { path: string; manifest: DeploymentManifest } | undefined {
+  return listDeploymentManifests(chainId)
+    .reverse()
+    .find(({ manifest }) => manifest.contracts.factory?.address.toLowerCase() === factory.toLowerCase());
+}
+
+export function getDeploymentCheckpointPath(chainId: number): string {
+  return resolve(getManifestDir(chainId), CHECKPOINT_FILE);
+}
+
+/**
+ * The checkpoint of an unfinished deployment. Addresses are only configured once a deployment completes,
+ * so a checkpoint whose factory is the configured one is left over from a completed run and ignored.
+ */
+export function readDeploymentCheckpoint(chainId: number): DeploymentCheckpoint | undefined {
+  const path = getDeploymentCheckpointPath(chainId);
+  if (!existsSync(path)) {
+    return undefined;
+  }
+
+  const checkpoint = JSON.parse(readFileSync(path, 'utf8')) as DeploymentCheckpoint;
+  const configuredFactory = config.getNetworkContract(checkpoint.network, 'factory');
+  const completed = configuredFactory !== undefined && configuredFactory.toLowerCase() === checkpoint.contracts.factory?.address.toLowerCase();
+  return completed ? undefined : checkpoint;
+}
+
+// Written after every step, a crash must never lose a deployed address
+export function writeDeploymentCheckpoint(checkpoint: DeploymentCheckpoint): void {
+  mkdirSync(getManifestDir(checkpoint.chainId), { recursive: true });
+  writeFileSync(getDeploymentCheckpointPath(checkpoint.chainId), JSON.stringify(checkpoint, null, 2) + '\n', 'utf8');
+}
+
+export function clearDeploymentCheckpoint(chainId: number): void {
+  rmSync(getDeploymentCheckpointPath(chainId), { force: true });
+}
+
+function maskImmutables(code: Hex, references: ImmutableReferences = {}): Hex {
+  let masked = code.toLowerCase();
+  for (const ranges of Object.values(references)) {
+    for (const { start, length } of ranges) {
+      const from = 2 + start * 2;
+      masked = masked.slice(0, from) + '0'.repeat(length * 2) + masked.slice(from + length * 2);
+    }
+  }
+  return masked as Hex;
+}
+
+// solc appends CBOR-encoded metadata, its length in the last two bytes
+function stripMetadata(code: Hex): Hex {
+  const metadataLength = parseInt(code.slice(-4), 16);
+  const end = code.length - (metadataLength + 2) * 2;
+  return (Number.isNaN(metadataLength) || end < 2 ? code : code.slice(0, end)) as Hex;
+}
+
+/**
+ * Compares deployed runtime code with an artifact's deployedBytecode, ignoring immutable values.
+ */
+export function compareRuntimeCode(deployed: Hex | undefined, artifact: Hex, immutableReferences?: ImmutableReferences): BytecodeStatus {
+  if (!deployed || deployed === '0x') {
+    return 'no-code';
+  }
+
+  const actual = maskImmutables(deployed, immutableReferences);
+  const expected = artifact.toLowerCase() as Hex;
+
+  if (actual === expected) {
+    return 'match';
+  }
+  return stripMetadata(actual) === stripMetadata(expected) ? 'metadata' : 'mismatch';
+}
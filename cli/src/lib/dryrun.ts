@@ -0,0 +1,63 @@
+import chalk from 'chalk';
+import { table } from 'table';
+import { formatGwei } from 'viem';
+import { emitJson, emitJsonError, withWei } from './output';
+import { logError, logInfo } from './utils';
+import { DryRunResult } from '../types';
+
+function formatDelta(delta: string): string {
+  if (delta === '0') return chalk.gray(delta);
+  return delta.startsWith('-') ? chalk.red(delta) : chalk.green(`+${delta}`);
+}
+
+/**
+ * Prints the outcome of a --dry-run and emits it in JSON mode.
+ *
+ * A predicted revert sets a failing exit code, so scripts can gate the real transaction on it.
+ */
+export function reportDryRun(result: DryRunResult): void {
+  const data = {
+    ...withWei(result, ['value', 'gasCost', 'totalCost']),
+    balanceChanges: result.balanceChanges.map((change) => withWei(change, ['before', 'after', 'delta'])),
+  };
+
+  console.log(chalk.blue('\nDry Run:'));
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+  console.log(`Action: ${chalk.green(result.action)}`);
+  console.log(`From: ${chalk.blue(result.from)}`);
+  if (result.to) {
+    console.log(`To: ${chalk.green(result.to)}`);
+  }
+  console.log(`Value: ${chalk.yellow(result.value)} RBTC`);
+
+  if (!result.success) {
+    console.log(`Simulation: ${chalk.red('reverted')}`);
+    console.log(`Revert Reason: ${chalk.red(result.revertReason)}`);
+
+    emitJsonError(`Transaction would revert: ${result.revertReason}`, data);
+    logError('The transaction would revert, nothing was sent');
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log(`Simulation: ${chalk.green('success')}`);
+  console.log(`Gas Estimate: ${chalk.gray(result.gasEstimate)}`);
+  console.log(`Gas Price: ${chalk.gray(formatGwei(BigInt(result.gasPrice)))} gwei`);
+  console.log(`Gas Cost: ${chalk.gray(result.gasCost)} RBTC`);
+  console.log(`Total Cost: ${chalk.yellow(result.totalCost)} RBTC`);
+
+  console.log(chalk.blue('\nBalance Changes:'));
+  console.log(table([
+    ['Role', 'Address', 'Before (RBTC)', 'Change (RBTC)', 'After (RBTC)'],
+    ...result.balanceChanges.map((change) => [
+      change.label,
+      change.address,
+      change.before,
+      formatDelta(change.delta),
+      change.after,
+    ]),
+  ]));
+
+  emitJson(data);
+  logInfo('Dry run only, nothing was sent');
+}
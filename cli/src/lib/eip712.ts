@@ -0,0 +1,148 @@
+import { readFileSync } from 'fs';
+import { recoverTypedDataAddress, type Address, type Hex } from 'viem';
+import { isZeroAddress } from './utils';
+import { SignatureData, SwapAuthorizationState, SwapContractLockParams } from '../types';
+
+// Mirrors the typehashes declared in Aon.sol
+export const REFUND_TYPES = {
+  Refund: [
+    { name: 'contributor', type: 'address' },
+    { name: 'swapContract', type: 'address' },
+    { name: 'amount', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+    { name: 'processingFee', type: 'uint256' },
+    { name: 'preimageHash', type: 'bytes32' },
+    { name: 'refundAddress', type: 'address' },
+  ],
+} as const;
+
+export const CLAIM_TYPES = {
+  Claim: [
+    { name: 'creator', type: 'address' },
+    { name: 'swapContract', type: 'address' },
+    { name: 'amount', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+    { name: 'processingFee', type: 'uint256' },
+    { name: 'preimageHash', type: 'bytes32' },
+    { name: 'refundAddress', type: 'address' },
+  ],
+} as const;
+
+/**
+ * Each campaign proxy is its own verifying contract, so the domain differs per campaign.
+ */
+export function getAonDomain(chainId: number, campaignAddress: string) {
+  return {
+    name: 'Aon',
+    version: '1',
+    chainId,
+    verifyingContract: campaignAddress as Address,
+  } as const;
+}
+
+// Boltz EtherSwap lock function
+export const DEFAULT_LOCK_FUNCTION_SIGNATURE = 'lock(bytes32,address,address,uint256)';
+
+export function readSignatureBundle(file: string): SignatureData {
+  const bundle = JSON.parse(readFileSync(file, 'utf8')) as SignatureData;
+
+  const required: (keyof SignatureData)[] = [
+    'type', 'campaign', 'chainId', 'swapContract', 'amount', 'nonce',
+    'deadline', 'processingFee', 'preimageHash', 'refundAddress', 'signature',
+  ];
+  const missing = required.filter((field) => bundle[field] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`Invalid signature bundle, missing: ${missing.join(', ')}`);
+  }
+
+  if (bundle.type === 'refund' && !bundle.contributor) {
+    throw new Error('Invalid signature bundle, missing: contributor');
+  }
+  if (bundle.type === 'claim' && !bundle.creator) {
+    throw new Error('Invalid signature bundle, missing: creator');
+  }
+
+  return bundle;
+}
+
+/**
+ * Recovers the address that signed a bundle, so relayers can reject bad signatures without spending gas.
+ */
+export async function recoverBundleSigner(bundle: SignatureData): Promise<Address> {
+  const common = {
+    swapContract: bundle.swapContract as Address,
+    amount: BigInt(bundle.amount),
+    nonce: BigInt(bundle.nonce),
+    deadline: BigInt(bundle.deadline),
+    processingFee: BigInt(bundle.processingFee),
+    preimageHash: bundle.preimageHash as Hex,
+    refundAddress: bundle.refundAddress as Address,
+  };
+  const domain = getAonDomain(bundle.chainId, bundle.campaign);
+
+  if (bundle.type === 'refund') {
+    return recoverTypedDataAddress({
+      domain,
+      types: REFUND_TYPES,
+      primaryType: 'Refund',
+      message: { contributor: bundle.contributor as Address, ...common },
+      signature: bundle.signature as Hex,
+    });
+  }
+
+  return recoverTypedDataAddress({
+    domain,
+    types: CLAIM_TYPES,
+    primaryType: 'Claim',
+    message: { creator: bundle.creator as Address, ...common },
+    signature: bundle.signature as Hex,
+  });
+}
+
+/**
+ * Mirrors the checks refundToSwapContract/claimToSwapContract perform before verifying the signature.
+ * Returns a list of problems, empty when the bundle can be submitted.
+ */
+export function validateSwapBundle(
+  bundle: SignatureData,
+  lockParams: SwapContractLockParams,
+  state: SwapAuthorizationState
+): string[] {
+  const problems: string[] = [];
+  const now = Math.floor(Date.now() / 1000);
+
+  if (now > bundle.deadline) {
+    problems.push('Signature has expired');
+  }
+  if (isZeroAddress(bundle.swapContract)) {
+    problems.push('Swap contract cannot be the zero address');
+  }
+  if (isZeroAddress(lockParams.claimAddress)) {
+    problems.push('Claim address cannot be the zero address');
+  }
+  if (isZeroAddress(lockParams.refundAddress)) {
+    problems.push('Refund address cannot be the zero address');
+  }
+  if (lockParams.preimageHash.toLowerCase() !== bundle.preimageHash.toLowerCase()) {
+    problems.push('Lock preimage hash does not match the signed preimage hash');
+  }
+  if (lockParams.refundAddress.toLowerCase() !== bundle.refundAddress.toLowerCase()) {
+    problems.push('Lock refund address does not match the signed refund address');
+  }
+  if (state.chainId !== bundle.chainId) {
+    problems.push(`Bundle was signed for chain ${bundle.chainId}, connected to chain ${state.chainId}`);
+  }
+  if (state.nonce !== bundle.nonce) {
+    problems.push(`Signed nonce ${bundle.nonce} does not match current nonce ${state.nonce}`);
+  }
+  if (state.amount !== bundle.amount) {
+    problems.push(`Signed amount ${bundle.amount} wei does not match current amount ${state.amount} wei`);
+  }
+  if (BigInt(bundle.amount) === 0n) {
+    problems.push('Signed amount is 0, nothing would reach the swap contract');
+  }
+
+  return problems;
+}
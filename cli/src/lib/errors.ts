@@ -0,0 +1,194 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  InsufficientFundsError,
+  decodeErrorResult,
+  formatEther,
+  toFunctionSelector,
+  type Abi,
+  type Hex,
+} from 'viem';
+import { aonAbi, aonProxyAbi, factoryAbi } from '../generated';
+
+type AbiError = Extract<Abi[number], { type: 'error' }>;
+
+export interface DecodedContractError {
+  name: string;
+  args: readonly unknown[];
+  message: string;
+}
+
+// Every custom error the Aon, Factory and AonProxy contracts (and their OpenZeppelin bases) can revert with
+const CONTRACT_ERRORS: AbiError[] = ([...aonAbi, ...factoryAbi, ...aonProxyAbi] as Abi)
+  .filter((item): item is AbiError => item.type === 'error');
+
+const rbtc = (value: unknown) => `${formatEther(value as bigint)} RBTC`;
+
+// `reason` arguments carry the revert data of the recipient that rejected the transfer
+const recipientReason = (value: unknown) => {
+  const reason = value as Hex;
+  return reason && reason !== '0x' ? ` (recipient reverted with ${reason.slice(0, 10)})` : '';
+};
+
+const ERROR_MESSAGES: Record<string, (args: readonly unknown[]) => string> = {
+  // Aon: general
+  GoalNotReached: () => 'The campaign goal has not been reached',
+  GoalReachedAlready: () => 'The campaign goal has already been reached',
+  InvalidContribution: () => 'The contribution amount must be greater than zero',
+  AlreadyClaimed: () => 'The campaign funds have already been claimed',
+  FailedToSwipeFunds: ([reason]) => `Failed to send the swiped funds to the swipe recipient${recipientReason(reason)}`,
+
+  // Aon: initialization, raised through Factory.create
+  InvalidGoal: () => 'The goal must be greater than zero',
+  InvalidDuration: () => 'The campaign duration must be at least 1 hour',
+  InvalidClaimWindow: () => 'The claim window must be at least 1 hour',
+  InvalidRefundWindow: () => 'The refund window must be at least 1 hour',
+  InvalidGoalReachedStrategy: () => 'The goal strategy address is not set, redeploy or check the network config',
+  InvalidCreator: () => 'The creator address cannot be the zero address',
+  InvalidInitialization: () => 'The campaign is already initialized',
+  NotInitializing: () => 'The campaign can only be initialized by the factory',
+
+  // Aon: contributions
+  ContributorFeeCannotExceedContributionAmount: () => 'The contributor fee must be lower than the contribution amount',
+  CannotContributeToCancelledContract: () => 'The campaign was cancelled, contributions are closed',
+  CannotContributeToClaimedContract: () => 'The campaign was claimed, contributions are closed',
+  CannotContributeToFinalizedContract: () => 'The campaign is finalized, contributions are closed',
+  CannotContributeAfterEndTime: () => 'The campaign has ended, contributions are closed',
+
+  // Aon: cancellation
+  CannotCancelCancelledContract: () => 'The campaign is already cancelled',
+  CannotCancelClaimedContract: () => 'The campaign was claimed and can no longer be cancelled',
+  CannotCancelFinalizedContract: () => 'The campaign is finalized and can no longer be cancelled',
+  OnlyCreatorOrFactoryOwnerCanCancel: () => 'Only the campaign creator or the factory owner can cancel the campaign',
+
+  // Aon: claims
+  CannotClaimCancelledContract: () => 'The campaign was cancelled, its funds cannot be claimed',
+  CannotClaimClaimedContract: () => 'The campaign funds have already been claimed',
+  CannotClaimFailedContract: () => 'The campaign failed, contributors can refund instead',
+  CannotClaimAfterClaimWindow: () => 'The claim window has closed, contributors can now refund',
+  OnlyCreatorCanClaim: () => 'Only the campaign creator can claim the funds',
+  FailedToSendFundsInClaim: ([reason]) => `Failed to send the claimed funds${recipientReason(reason)}`,
+  FailedToSendFeeRecipientAmount: ([reason]) => `Failed to send the fees to the fee recipient${recipientReason(reason)}`,
+
+  // Aon: refunds
+  CannotRefundNonActiveContract: () => 'The campaign is not active, refunds are closed',
+  CannotRefundClaimedContract: () => 'The campaign was claimed, refunds are closed',
+  CannotRefundRefundedContract: () => 'The contribution has already been refunded',
+  CannotRefundZeroContribution: () => 'This address has no contribution to refund',
+  InsufficientBalanceForRefund: ([balance, refundAmount, goal]) =>
+    `Refunding ${rbtc(refundAmount)} would drop the campaign balance of ${rbtc(balance)} below its goal of ${rbtc(goal)}. ` +
+    'Successful campaigns only refund above the goal until the claim window closes',
+  ProcessingFeeHigherThanRefundAmount: ([refundAmount, processingFee]) =>
+    `The processing fee of ${rbtc(processingFee)} exceeds the refundable ${rbtc(refundAmount)}, lower --processing-fee`,
+  FailedToRefund: ([reason]) => `Failed to send the refund to the contributor${recipientReason(reason)}`,
+
+  // Aon: EIP-712 authorizations
+  InvalidSignature: () => 'The signature does not match the signer, amount, nonce or swap parameters, sign a new authorization',
+  SignatureExpired: () => 'The signature deadline has passed, sign a new authorization',
+  ECDSAInvalidSignature: () => 'The signature is malformed',
+  ECDSAInvalidSignatureLength: ([length]) => `The signature has an invalid length of ${length} bytes`,
+  ECDSAInvalidSignatureS: () => 'The signature has an invalid s value',
+  InvalidAccountNonce: ([account, currentNonce]) => `Nonce mismatch for ${account}, its current nonce is ${currentNonce}`,
+  InvalidSwapContract: () => 'The swap contract cannot be the zero address',
+  InvalidClaimAddress: () => 'The swap claim address cannot be the zero address',
+  InvalidRefundAddress: () => 'The swap refund address cannot be the zero address',
+
+  // Aon: swipes
+  CannotSwipeFundsInClaimedContract: () => 'The campaign was claimed, there is nothing to swipe',
+  CannotSwipeFundsInRefundedContract: () => 'The campaign was fully refunded, there is nothing to swipe',
+  CannotSwipeFundsBeforeEndOfClaimOrRefundWindow: () => 'Funds can only be swiped after the claim and refund windows have closed',
+  NoFundsToSwipe: () => 'The campaign has no funds to swipe',
+  OnlyFactoryCanSwipeFunds: () => 'Funds can only be swiped through the factory (aon-cli swipe)',
+
+  // Factory and AonProxy
+  InvalidImplementation: () => 'The implementation cannot be the zero address',
+  InvalidSwipeRecipient: () => 'The swipe recipient cannot be the zero address',
+  InvalidFeeRecipient: () => 'The fee recipient cannot be the zero address',
+  InvalidOwner: () => 'The owner cannot be the zero address',
+  OwnableInvalidOwner: ([owner]) => `Invalid factory owner: ${owner}`,
+  OwnableUnauthorizedAccount: ([account]) => `${account} is not the factory owner`,
+  DirectTransfersNotAllowed: () => 'Campaigns reject plain transfers, contribute with: aon-cli contribute',
+
+  // Solidity built-in
+  Panic: ([code]) => `The contract panicked with code ${code}`,
+};
+
+// Selector to error name, for nodes and errors that only report the 4-byte signature
+const ERROR_NAMES_BY_SELECTOR = new Map(
+  CONTRACT_ERRORS.map((item) => [
+    toFunctionSelector(`${item.name}(${item.inputs.map((input) => input.type).join(',')})`),
+    item.name,
+  ])
+);
+
+function describe(name: string, args: readonly unknown[]): DecodedContractError {
+  const format = ERROR_MESSAGES[name];
+  return { name, args, message: format ? format(args) : name };
+}
+
+function findRevertData(error: BaseError): Hex | undefined {
+  const reverted = error.walk((cause) => cause instanceof ContractFunctionRevertedError);
+  if (reverted instanceof ContractFunctionRevertedError && reverted.raw) {
+    return reverted.raw;
+  }
+
+  // Raw eth_call errors carry the revert data on the RPC error, some nodes nest it one level deeper
+  const withData = error.walk((cause) => 'data' in (cause as object)) as { data?: unknown } | null;
+  const data = typeof withData?.data === 'object' ? (withData.data as { data?: unknown })?.data : withData?.data;
+  return typeof data === 'string' && data.startsWith('0x') ? data as Hex : undefined;
+}
+
+/**
+ * Decodes the custom error behind a failed call or transaction, whichever contract raised it.
+ * Reverts bubble up, so e.g. Factory.create can fail with Aon's InvalidDuration.
+ */
+export function decodeContractError(error: unknown): DecodedContractError | undefined {
+  if (!(error instanceof BaseError)) {
+    return undefined;
+  }
+
+  const data = findRevertData(error);
+  if (data && data.length >= 10) {
+    try {
+      const { errorName, args } = decodeErrorResult({ abi: CONTRACT_ERRORS, data });
+      if (errorName === 'Error') {
+        return { name: errorName, args: args ?? [], message: String(args?.[0]) };
+      }
+      return describe(errorName, args ?? []);
+    } catch {
+      const name = ERROR_NAMES_BY_SELECTOR.get(data.slice(0, 10) as Hex);
+      if (name) {
+        return describe(name, []);
+      }
+    }
+  }
+
+  // Without revert data, fall back to an error name or selector in the node's message
+  const text = `${error.message} ${error.details ?? ''}`;
+  for (const [selector, name] of ERROR_NAMES_BY_SELECTOR) {
+    if (new RegExp(`\\b${name}\\b`).test(text) || text.includes(selector)) {
+      return describe(name, []);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Turns any error from a contract interaction into an actionable message for the error path of a command.
+ */
+export function formatContractError(error: unknown): string {
+  const decoded = decodeContractError(error);
+  if (decoded) {
+    return decoded.name === 'Error' ? decoded.message : `${decoded.message} (${decoded.name})`;
+  }
+
+  if (error instanceof BaseError) {
+    if (error.walk((cause) => cause instanceof InsufficientFundsError)) {
+      return 'Insufficient funds: the account needs enough RBTC for the value plus gas';
+    }
+    return error.shortMessage;
+  }
+
+  return error instanceof Error ? error.message : String(error);
+}
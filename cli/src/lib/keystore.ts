@@ -0,0 +1,187 @@
+import { createCipheriv, createDecipheriv, pbkdf2Sync, randomBytes, randomUUID, scryptSync } from 'crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { bytesToHex, concat, getAddress, hexToBytes, keccak256, type Hex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { config } from './config';
+import { isJsonMode } from './output';
+import { KeystoreAccount, KeystoreFile } from '../types';
+
+// Same scrypt cost as geth's "standard" setting
+const SCRYPT_N = 262144;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const DERIVED_KEY_LENGTH = 32;
+
+export const KEYSTORE_PASSWORD_ENV = 'AON_KEYSTORE_PASSWORD';
+
+function deriveKey(password: string, kdf: string, params: Record<string, number | string>): Buffer {
+  const salt = Buffer.from(String(params.salt), 'hex');
+  const dklen = Number(params.dklen);
+
+  if (kdf === 'scrypt') {
+    const N = Number(params.n);
+    const r = Number(params.r);
+    const p = Number(params.p);
+    // Node caps scrypt memory at 32MB by default, the standard cost needs 256MB
+    return scryptSync(password, salt, dklen, { N, r, p, maxmem: 128 * N * r * p + 32 * 1024 * 1024 });
+  }
+
+  if (kdf === 'pbkdf2') {
+    if (params.prf !== 'hmac-sha256') {
+      throw new Error(`Unsupported pbkdf2 prf: ${params.prf}`);
+    }
+    return pbkdf2Sync(password, salt, Number(params.c), dklen, 'sha256');
+  }
+
+  throw new Error(`Unsupported keystore kdf: ${kdf}`);
+}
+
+function computeMac(derivedKey: Buffer, ciphertext: Buffer): string {
+  return keccak256(concat([derivedKey.subarray(16, 32), ciphertext])).slice(2);
+}
+
+/**
+ * Encrypts arbitrary bytes with the Web3 Secret Storage scheme (scrypt + aes-128-ctr + keccak MAC).
+ */
+export function encryptSecret(secret: Uint8Array, password: string): KeystoreFile['crypto'] {
+  const salt = randomBytes(32);
+  const iv = randomBytes(16);
+  const kdfparams = { dklen: DERIVED_KEY_LENGTH, n: SCRYPT_N, r: SCRYPT_R, p: SCRYPT_P, salt: salt.toString('hex') };
+  const derivedKey = deriveKey(password, 'scrypt', kdfparams);
+
+  const cipher = createCipheriv('aes-128-ctr', derivedKey.subarray(0, 16), iv);
+  const ciphertext = Buffer.concat([cipher.update(secret), cipher.final()]);
+
+  return {
+    cipher: 'aes-128-ctr',
+    cipherparams: { iv: iv.toString('hex') },
+    ciphertext: ciphertext.toString('hex'),
+    kdf: 'scrypt',
+    kdfparams,
+    mac: computeMac(derivedKey, ciphertext),
+  };
+}
+
+export function decryptSecret(crypto: KeystoreFile['crypto'], password: string): Buffer {
+  if (crypto.cipher !== 'aes-128-ctr') {
+    throw new Error(`Unsupported keystore cipher: ${crypto.cipher}`);
+  }
+
+  const derivedKey = deriveKey(password, crypto.kdf, crypto.kdfparams);
+  const ciphertext = Buffer.from(crypto.ciphertext, 'hex');
+
+  if (computeMac(derivedKey, ciphertext) !== crypto.mac.toLowerCase()) {
+    throw new Error('Invalid keystore password');
+  }
+
+  const decipher = createDecipheriv('aes-128-ctr', derivedKey.subarray(0, 16), Buffer.from(crypto.cipherparams.iv, 'hex'));
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+export function encryptKeystore(privateKey: Hex, password: string): KeystoreFile {
+  return {
+    version: 3,
+    id: randomUUID(),
+    address: privateKeyToAccount(privateKey).address.slice(2).toLowerCase(),
+    crypto: encryptSecret(hexToBytes(privateKey), password),
+  };
+}
+
+export function decryptKeystore(keystore: KeystoreFile, password: string): Hex {
+  if (keystore.version !== 3) {
+    throw new Error(`Unsupported keystore version: ${keystore.version}`);
+  }
+
+  return bytesToHex(decryptSecret(keystore.crypto, password));
+}
+
+export function isValidAccountName(name: string): boolean {
+  return /^[A-Za-z0-9_-]{1,64}$/.test(name);
+}
+
+function getKeystorePath(name: string): string {
+  if (!isValidAccountName(name)) {
+    throw new Error('Account names may only contain letters, numbers, "-" and "_"');
+  }
+  return resolve(config.getKeystoreDir(), `${name}.json`);
+}
+
+export function readKeystoreFile(path: string): KeystoreFile {
+  try {
+    return JSON.parse(readFileSync(path, 'utf8')) as KeystoreFile;
+  } catch (error) {
+    throw new Error(`Failed to read keystore ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+export function listKeystoreAccounts(): KeystoreAccount[] {
+  const dir = config.getKeystoreDir();
+  if (!existsSync(dir)) {
+    return [];
+  }
+
+  return readdirSync(dir)
+    .filter((file) => file.endsWith('.json'))
+    .sort()
+    .map((file) => {
+      const path = resolve(dir, file);
+      return {
+        name: file.slice(0, -'.json'.length),
+        address: getAddress(`0x${readKeystoreFile(path).address}`),
+        path,
+      };
+    });
+}
+
+export function keystoreAccountExists(name: string): boolean {
+  return existsSync(getKeystorePath(name));
+}
+
+export function loadKeystoreAccount(name: string): KeystoreFile {
+  const path = getKeystorePath(name);
+  if (!existsSync(path)) {
+    throw new Error(`Account "${name}" not found. List accounts with: aon-cli accounts list`);
+  }
+  return readKeystoreFile(path);
+}
+
+export function saveKeystoreAccount(name: string, keystore: KeystoreFile): string {
+  const path = getKeystorePath(name);
+  mkdirSync(config.getKeystoreDir(), { recursive: true, mode: 0o700 });
+  writeFileSync(path, JSON.stringify(keystore, null, 2) + '\n', { encoding: 'utf8', mode: 0o600, flag: 'wx' });
+  return path;
+}
+
+export function removeKeystoreAccount(name: string): void {
+  unlinkSync(getKeystorePath(name));
+}
+
+export async function promptSecret(message: string): Promise<string> {
+  if (isJsonMode()) {
+    throw new Error('Cannot prompt for secrets when using --json');
+  }
+
+  // Prompt on stderr so piped stdout (e.g. "aon-cli sign ... > bundle.json") stays clean
+  const inquirer = await import('inquirer');
+  const prompt = inquirer.default.createPromptModule({ output: process.stderr });
+  const { secret } = await prompt([{ type: 'password', name: 'secret', message, mask: '*' }]);
+  return secret;
+}
+
+export async function promptPassword(message: string, confirm: boolean = false): Promise<string> {
+  if (process.env[KEYSTORE_PASSWORD_ENV] !== undefined) {
+    return process.env[KEYSTORE_PASSWORD_ENV]!;
+  }
+
+  if (isJsonMode()) {
+    throw new Error(`Password required, set ${KEYSTORE_PASSWORD_ENV} when using --json`);
+  }
+
+  const password = await promptSecret(message);
+  if (confirm && password !== await promptSecret('Repeat password:')) {
+    throw new Error('Passwords do not match');
+  }
+
+  return password;
+}
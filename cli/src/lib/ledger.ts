@@ -0,0 +1,98 @@
+import { formatEther, parseEther } from 'viem';
+import { formatAddress } from './utils';
+import { ContributionEvent, ContributorPosition } from '../types';
+
+interface Position {
+  contributor: string;
+  contributed: bigint;
+  refunded: bigint;
+  processingFees: bigint;
+  expected: bigint;
+  contributions: number;
+  refunds: number;
+  flags: Set<string>;
+}
+
+/**
+ * Replays contribution and refund events into per-contributor positions and cross-checks each
+ * position against the on-chain `contributions(address)` value (keyed by lowercase address).
+ *
+ * Refunds zero the contribution on-chain, and the event only carries the amount net of the
+ * processing fee, so the fee is derived from the replayed position at the time of the refund.
+ */
+export function buildContributorLedger(
+  events: ContributionEvent[],
+  onChain: Record<string, string>
+): ContributorPosition[] {
+  const positions = new Map<string, Position>();
+
+  for (const event of events) {
+    const key = event.contributor.toLowerCase();
+    let position = positions.get(key);
+    if (!position) {
+      position = {
+        contributor: event.contributor,
+        contributed: 0n,
+        refunded: 0n,
+        processingFees: 0n,
+        expected: 0n,
+        contributions: 0,
+        refunds: 0,
+        flags: new Set(),
+      };
+      positions.set(key, position);
+    }
+
+    const amount = parseEther(event.amount);
+    const bySomeoneElse = event.sender.toLowerCase() !== key;
+
+    if (event.type === 'contribution') {
+      position.contributed += amount;
+      position.expected += amount;
+      position.contributions++;
+
+      if (bySomeoneElse) {
+        position.flags.add(`Contributed by ${formatAddress(event.sender)} via ${event.method || 'another contract'}`);
+      }
+      continue;
+    }
+
+    position.refunded += amount;
+    position.refunds++;
+
+    if (amount > position.expected) {
+      position.flags.add('Refund exceeds replayed contributions (scan may have started too late)');
+    } else {
+      position.processingFees += position.expected - amount;
+    }
+    position.expected = 0n;
+
+    if (event.method === 'refundToSwapContract') {
+      position.flags.add(`Refunded to a swap contract, relayed by ${formatAddress(event.sender)}`);
+    } else if (bySomeoneElse) {
+      position.flags.add(`Refund submitted by ${formatAddress(event.sender)}`);
+    }
+  }
+
+  return [...positions.entries()].map(([key, position]) => {
+    const onChainAmount = parseEther(onChain[key] || '0');
+    const mismatch = onChainAmount !== position.expected;
+
+    if (mismatch) {
+      position.flags.add(`On-chain contribution differs from replayed events by ${formatEther(onChainAmount - position.expected)} RBTC`);
+    }
+
+    return {
+      contributor: position.contributor,
+      contributed: formatEther(position.contributed),
+      refunded: formatEther(position.refunded),
+      processingFees: formatEther(position.processingFees),
+      expected: formatEther(position.expected),
+      onChain: formatEther(onChainAmount),
+      contributions: position.contributions,
+      refunds: position.refunds,
+      mismatch,
+      flags: [...position.flags],
+    };
+  });
+}
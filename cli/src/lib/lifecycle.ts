@@ -0,0 +1,57 @@
+import { CampaignInfo, CampaignStatus, CampaignTimeline } from '../types';
+
+/**
+ * Derives the campaign timeline and the actions each role can take in the current phase.
+ *
+ * `now` should be the latest block timestamp, the contract evaluates every window against it.
+ * The rules mirror Aon.isValidContribution, getRefundAmount, isValidClaim, canCancel and isValidSwipe.
+ */
+export function getCampaignTimeline(info: CampaignInfo, now: number): CampaignTimeline {
+  const claimWindowEnd = info.endTime + info.claimWindow;
+  const refundWindowEnd = claimWindowEnd + info.refundWindow;
+  const hasFunds = parseFloat(info.balance) > 0;
+  const swipeEligible = now > refundWindowEnd && hasFunds;
+
+  const creator: string[] = [];
+  const contributors: string[] = [];
+  const factoryOwner: string[] = [];
+
+  switch (info.status) {
+    case CampaignStatus.Active:
+      if (now <= info.endTime) contributors.push('contribute');
+      contributors.push('refund');
+      creator.push('cancel');
+      factoryOwner.push('cancel');
+      break;
+    case CampaignStatus.Successful:
+      if (now <= info.endTime) contributors.push('contribute');
+      // Refunds must not drop the balance below the goal until the claim window closes
+      contributors.push('refund (only above the goal)');
+      creator.push('claim', 'claim --to-swap', 'cancel');
+      factoryOwner.push('cancel');
+      break;
+    case CampaignStatus.Failed:
+    case CampaignStatus.Cancelled:
+      contributors.push('refund');
+      break;
+    case CampaignStatus.Unclaimed:
+      // The creator missed the claim window, so the goal no longer holds refunds back
+      contributors.push('refund');
+      break;
+  }
+
+  if (swipeEligible && info.status !== CampaignStatus.Finalized) {
+    factoryOwner.push('swipe');
+  }
+
+  return {
+    now,
+    milestones: [
+      { name: 'ended', label: 'Campaign end', timestamp: info.endTime, passed: now > info.endTime },
+      { name: 'claimWindowClosed', label: 'Claim window close', timestamp: claimWindowEnd, passed: now > claimWindowEnd },
+      { name: 'refundWindowClosed', label: 'Refund window close (swipe)', timestamp: refundWindowEnd, passed: now > refundWindowEnd },
+    ],
+    swipeEligible,
+    actions: { creator, contributors, factoryOwner },
+  };
+}
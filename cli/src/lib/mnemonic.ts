@@ -0,0 +1,119 @@
+import { randomUUID } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { mnemonicToSeedSync, validateMnemonic as validateBip39Mnemonic } from '@scure/bip39';
+import { bytesToHex } from 'viem';
+import { english, generateMnemonic as generateBip39Mnemonic, HDKey, privateKeyToAccount } from 'viem/accounts';
+import { config } from './config';
+import { decryptSecret, encryptSecret, promptPassword } from './keystore';
+import { DerivationScheme, DerivedAccount, EncryptedMnemonic } from '../types';
+
+// Anvil's default dev mnemonic, its accounts are funded on every local node
+export const ANVIL_MNEMONIC = 'test test test test test test test test test test test junk';
+
+const RSK_MAINNET_CHAIN_ID = 30;
+
+/**
+ * SLIP-44 coin type: RSK mainnet uses 137', RSK testnet and regtest 37310' (RSKIP-57), Ethereum 60'.
+ */
+export function getCoinType(derivation: DerivationScheme, chainId: number): number {
+  if (derivation === 'ethereum') {
+    return 60;
+  }
+  return chainId === RSK_MAINNET_CHAIN_ID ? 137 : 37310;
+}
+
+export function getDerivationPath(coinType: number, index: number): string {
+  return `m/44'/${coinType}'/0'/0/${index}`;
+}
+
+export function normalizeMnemonic(mnemonic: string): string {
+  return mnemonic.trim().toLowerCase().split(/\s+/).join(' ');
+}
+
+/**
+ * Checks the words against the BIP-39 English wordlist and verifies the checksum.
+ */
+export function validateMnemonic(mnemonic: string): boolean {
+  return validateBip39Mnemonic(normalizeMnemonic(mnemonic), english);
+}
+
+export function generateMnemonic(words: 12 | 24 = 12): string {
+  return generateBip39Mnemonic(english, words === 24 ? 256 : 128);
+}
+
+export function deriveAccounts(mnemonic: string, coinType: number, start: number, count: number): DerivedAccount[] {
+  // BIP-39 seed, without a passphrase. viem's mnemonicToAccount only takes Ethereum (60') paths
+  const root = HDKey.fromMasterSeed(mnemonicToSeedSync(normalizeMnemonic(mnemonic)));
+
+  return Array.from({ length: count }, (_, offset) => {
+    const index = start + offset;
+    const path = getDerivationPath(coinType, index);
+    const privateKey = bytesToHex(root.derive(path).privateKey!);
+
+    return {
+      index,
+      path,
+      address: privateKeyToAccount(privateKey).address,
+      privateKey,
+    };
+  });
+}
+
+export function mnemonicExists(): boolean {
+  return existsSync(config.getMnemonicPath());
+}
+
+function readMnemonicFile(): EncryptedMnemonic {
+  if (!mnemonicExists()) {
+    throw new Error('No mnemonic configured. Set one with: aon-cli mnemonic import');
+  }
+  return JSON.parse(readFileSync(config.getMnemonicPath(), 'utf8')) as EncryptedMnemonic;
+}
+
+export function getMnemonicDerivation(): DerivationScheme {
+  return readMnemonicFile().derivation;
+}
+
+export function saveMnemonic(mnemonic: string, derivation: DerivationScheme, password: string): string {
+  const path = config.getMnemonicPath();
+  const encrypted: EncryptedMnemonic = {
+    version: 3,
+    id: randomUUID(),
+    derivation,
+    crypto: encryptSecret(Buffer.from(normalizeMnemonic(mnemonic), 'utf8'), password),
+  };
+
+  mkdirSync(dirname(path), { recursive: true, mode: 0o700 });
+  writeFileSync(path, JSON.stringify(encrypted, null, 2) + '\n', { encoding: 'utf8', mode: 0o600, flag: 'wx' });
+  return path;
+}
+
+export async function unlockMnemonic(): Promise<{ mnemonic: string; derivation: DerivationScheme }> {
+  const encrypted = readMnemonicFile();
+  const password = await promptPassword('Mnemonic password:');
+  return {
+    mnemonic: decryptSecret(encrypted.crypto, password).toString('utf8'),
+    derivation: encrypted.derivation,
+  };
+}
+
+export function removeMnemonic(): void {
+  unlinkSync(config.getMnemonicPath());
+}
+
+/**
+ * Derives the account at `index` for a network: the Anvil dev mnemonic on `local`,
+ * the configured mnemonic everywhere else.
+ */
+export async function deriveNetworkAccount(networkName: string | undefined, index: number): Promise<DerivedAccount> {
+  const networkKey = networkName || config.getDefaultNetwork();
+
+  if (networkKey === 'local') {
+    return deriveAccounts(ANVIL_MNEMONIC, getCoinType('ethereum', 0), index, 1)[0];
+  }
+
+  const { mnemonic, derivation } = await unlockMnemonic();
+  const coinType = getCoinType(derivation, config.getNetwork(networkKey).chainId);
+  return deriveAccounts(mnemonic, coinType, index, 1)[0];
+}
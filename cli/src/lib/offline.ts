@@ -0,0 +1,112 @@
+import chalk from 'chalk';
+import { readFileSync, writeFileSync } from 'fs';
+import { table } from 'table';
+import { formatEther, formatGwei, keccak256, type Address, type Hex, type LocalAccount } from 'viem';
+import { emitJson } from './output';
+import { logInfo, logSuccess } from './utils';
+import { SignedTransactionFile, UnsignedTransaction, UnsignedTransactionFile } from '../types';
+
+/*
+ * Air-gapped workflow: a write command with --unsigned builds the transactions on an online machine,
+ * "aon-cli tx sign" signs them without any RPC access and "aon-cli tx broadcast" submits them.
+ */
+
+function readTransactionFile<T extends { version: number; transactions: unknown[] }>(file: string, required: string[]): T {
+  const contents = JSON.parse(readFileSync(file, 'utf8')) as T;
+
+  if (contents.version !== 1) {
+    throw new Error(`Unsupported transaction file version: ${contents.version}`);
+  }
+
+  const missing = required.filter((field) => (contents as Record<string, unknown>)[field] === undefined);
+  if (missing.length > 0 || !Array.isArray(contents.transactions) || contents.transactions.length === 0) {
+    throw new Error(`Invalid transaction file, missing: ${missing.length > 0 ? missing.join(', ') : 'transactions'}`);
+  }
+
+  return contents;
+}
+
+export function readUnsignedTransactions(file: string): UnsignedTransactionFile {
+  const unsigned = readTransactionFile<UnsignedTransactionFile>(file, ['action', 'network', 'from']);
+
+  for (const transaction of unsigned.transactions) {
+    const fields: (keyof UnsignedTransaction)[] = ['data', 'value', 'nonce', 'gas', 'gasPrice', 'chainId'];
+    const missing = fields.filter((field) => transaction[field] === undefined);
+    if (missing.length > 0) {
+      throw new Error(`Invalid unsigned transaction "${transaction.label}", missing: ${missing.join(', ')}`);
+    }
+  }
+
+  return unsigned;
+}
+
+export function readSignedTransactions(file: string): SignedTransactionFile {
+  return readTransactionFile<SignedTransactionFile>(file, ['action', 'network', 'from']);
+}
+
+/**
+ * Prints the transactions for review, before they are written, signed or broadcast.
+ */
+export function printUnsignedTransactions(unsigned: UnsignedTransactionFile): void {
+  console.log(`Action: ${chalk.green(unsigned.action)}`);
+  console.log(`Network: ${chalk.green(unsigned.network)} (chain ${unsigned.transactions[0].chainId})`);
+  console.log(`From: ${chalk.blue(unsigned.from)}`);
+
+  console.log(table([
+    ['Transaction', 'To', 'Value (RBTC)', 'Nonce', 'Gas', 'Gas Price (gwei)'],
+    ...unsigned.transactions.map((transaction) => [
+      transaction.label,
+      transaction.to ?? chalk.gray('(contract creation)'),
+      formatEther(BigInt(transaction.value)),
+      transaction.nonce,
+      transaction.gas,
+      formatGwei(BigInt(transaction.gasPrice)),
+    ]),
+  ]));
+}
+
+export function writeUnsignedTransactions(file: string, unsigned: UnsignedTransactionFile): void {
+  writeFileSync(file, JSON.stringify(unsigned, null, 2) + '\n', 'utf8');
+
+  console.log(chalk.blue('Unsigned Transactions:'));
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+  printUnsignedTransactions(unsigned);
+
+  emitJson({ file, ...unsigned });
+  logSuccess(`Unsigned transaction${unsigned.transactions.length > 1 ? 's' : ''} written to ${file}`);
+  logInfo(`Sign offline with: aon-cli tx sign ${file} --output signed.json`);
+  logInfo('The nonce and gas price are fixed now, sign and broadcast before other transactions from this account');
+}
+
+/**
+ * Signs every transaction with a local key. Runs entirely offline.
+ */
+export async function signTransactions(unsigned: UnsignedTransactionFile, account: LocalAccount): Promise<SignedTransactionFile> {
+  if (account.address.toLowerCase() !== unsigned.from.toLowerCase()) {
+    throw new Error(`Transactions were built for ${unsigned.from}, but the key belongs to ${account.address}`);
+  }
+
+  const transactions = [];
+  for (const transaction of unsigned.transactions) {
+    const serialized = await account.signTransaction({
+      type: 'legacy',
+      to: transaction.to as Address | null,
+      data: transaction.data as Hex,
+      value: BigInt(transaction.value),
+      nonce: transaction.nonce,
+      gas: BigInt(transaction.gas),
+      gasPrice: BigInt(transaction.gasPrice),
+      chainId: transaction.chainId,
+    });
+
+    transactions.push({ label: transaction.label, hash: keccak256(serialized), serialized });
+  }
+
+  return {
+    version: 1,
+    action: unsigned.action,
+    network: unsigned.network,
+    from: unsigned.from,
+    transactions,
+  };
+}
@@ -0,0 +1,96 @@
+import chalk from 'chalk';
+import { parseEther } from 'viem';
+
+/**
+ * Machine-readable output for the global --json flag.
+ *
+ * In JSON mode human-oriented output (console.log, spinners, colors) is suppressed and each
+ * command writes a single document to stdout:
+ *   { "ok": true, "command": "campaign info", "data": { ... }, "warnings": [] }
+ *   { "ok": false, "command": "campaign info", "error": "...", "warnings": [] }
+ */
+
+let jsonMode = false;
+let commandName = '';
+let emitted = false;
+const errors: string[] = [];
+const warnings: string[] = [];
+
+function stringify(value: unknown): string {
+  return JSON.stringify(value, (_key, item) => (typeof item === 'bigint' ? item.toString() : item), 2);
+}
+
+function writeDocument(document: Record<string, unknown>): void {
+  emitted = true;
+  process.stdout.write(stringify({ command: commandName, ...document, warnings }) + '\n');
+}
+
+export function enableJsonOutput(command: string): void {
+  jsonMode = true;
+  commandName = command;
+  chalk.level = 0;
+
+  // Human-oriented output would corrupt the JSON document on stdout
+  console.log = () => {};
+
+  // Commands bail out with process.exit, so failures are reported on the way out
+  process.on('exit', (code) => {
+    if (emitted) return;
+
+    if (code === 0 && errors.length === 0) {
+      writeDocument({ ok: true, data: null });
+    } else {
+      writeDocument({ ok: false, error: errors.join('; ') || `Exited with code ${code}` });
+    }
+  });
+}
+
+export function isJsonMode(): boolean {
+  return jsonMode;
+}
+
+export function emitJson(data: unknown): void {
+  if (!jsonMode || emitted) return;
+  writeDocument({ ok: true, data });
+}
+
+/**
+ * Reports a failure that still carries partial results, e.g. a batch where some transactions reverted.
+ */
+export function emitJsonError(error: string, data: unknown): void {
+  if (!jsonMode || emitted) return;
+  writeDocument({ ok: false, error, data });
+}
+
+/**
+ * Streams one compact JSON document per line, for long-running commands like `campaign watch`.
+ */
+export function emitJsonLine(data: unknown): void {
+  if (!jsonMode) return;
+  emitted = true;
+  process.stdout.write(JSON.stringify(data, (_key, item) => (typeof item === 'bigint' ? item.toString() : item)) + '\n');
+}
+
+export function recordError(message: string): void {
+  if (jsonMode) errors.push(message);
+}
+
+export function recordWarning(message: string): void {
+  if (jsonMode) warnings.push(message);
+}
+
+/**
+ * Adds a `<field>Wei` sibling next to each formatted RBTC amount.
+ */
+export function withWei<T extends object>(value: T, fields: (keyof T & string)[]): T & Record<string, string> {
+  const result = { ...value } as Record<string, unknown>;
+
+  for (const field of fields) {
+    const amount = value[field];
+    if (typeof amount === 'string') {
+      result[`${field}Wei`] = parseEther(amount).toString();
+    }
+  }
+
+  return result as T & Record<string, string>;
+}
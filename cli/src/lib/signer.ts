@@ -0,0 +1,180 @@
+import {
+  bytesToHex,
+  createWalletClient,
+  formatTransactionRequest,
+  getAddress,
+  http,
+  numberToHex,
+  serializeTypedData,
+  stringToHex,
+  webSocket,
+  type Account,
+  type Address,
+  type Hex,
+  type TransactionRequest,
+} from 'viem';
+import { privateKeyToAccount, toAccount } from 'viem/accounts';
+import { config } from './config';
+import { decryptKeystore, loadKeystoreAccount, promptPassword } from './keystore';
+import { deriveNetworkAccount } from './mnemonic';
+import { getPrivateKeyFromEnv, isValidEthereumAddress } from './utils';
+
+export interface SignerOptions {
+  network?: string;
+  account?: string;
+  accountIndex?: string;
+  privateKey?: string;
+  signer?: string;
+  from?: string;
+  unsigned?: string;
+}
+
+/**
+ * Resolves the signing key for write commands: a keystore account (--account), an HD account
+ * (--account-index), a raw key (--private-key), or the PRIVATE_KEY/RSK_DEPLOYMENT_PRIVATE_KEY
+ * environment variables.
+ */
+export async function resolvePrivateKey(options: SignerOptions): Promise<string | undefined> {
+  const sources = [options.account, options.accountIndex, options.privateKey].filter((source) => source !== undefined);
+  if (sources.length > 1) {
+    throw new Error('Use only one of --account, --account-index and --private-key');
+  }
+
+  if (options.account) {
+    const keystore = loadKeystoreAccount(options.account);
+    const password = await promptPassword(`Password for account "${options.account}":`);
+    return decryptKeystore(keystore, password);
+  }
+
+  if (options.accountIndex !== undefined) {
+    const index = Number(options.accountIndex);
+    if (!Number.isInteger(index) || index < 0 || index >= 2 ** 31) {
+      throw new Error('Account index must be a non-negative integer');
+    }
+    return (await deriveNetworkAccount(options.network, index)).privateKey;
+  }
+
+  return options.privateKey || getPrivateKeyFromEnv();
+}
+
+/**
+ * Resolves the account write commands sign with. Besides the local key sources of
+ * resolvePrivateKey, --signer selects an external signer:
+ *
+ * - `rpc:<url>`: a remote JSON-RPC signer (Clef or a signing service) that receives
+ *   eth_signTransaction and eth_signTypedData_v4, transactions are then broadcast through the network RPC
+ * - `node`: an account managed by the network node itself (e.g. Anvil's unlocked accounts),
+ *   which signs and sends through eth_sendTransaction and eth_signTypedData_v4
+ *
+ * With --unsigned only the --from address is resolved, the transactions are signed offline
+ * (see lib/offline.ts).
+ *
+ * `rpcUrl` is the --rpc-url override, the node signer lives behind it.
+ */
+export async function resolveSigner(options: SignerOptions, rpcUrl?: string): Promise<Account | undefined> {
+  if (options.unsigned !== undefined) {
+    const sources = [options.account, options.accountIndex, options.privateKey, options.signer]
+      .filter((source) => source !== undefined);
+    if (sources.length > 0) {
+      throw new Error('--unsigned needs no key, pass the sender with --from <address>');
+    }
+    if (options.from === undefined || !isValidEthereumAddress(options.from)) {
+      throw new Error('--unsigned requires the sender address: --from <address>');
+    }
+    // Never signs, commands only build calls for it
+    return { address: getAddress(options.from), type: 'json-rpc' };
+  }
+
+  if (options.signer === undefined) {
+    if (options.from !== undefined) {
+      throw new Error('--from only applies to an external --signer');
+    }
+    const privateKey = await resolvePrivateKey(options);
+    return privateKey ? privateKeyToAccount(`0x${privateKey.replace('0x', '')}` as Hex) : undefined;
+  }
+
+  const sources = [options.account, options.accountIndex, options.privateKey].filter((source) => source !== undefined);
+  if (sources.length > 0) {
+    throw new Error('Use only one of --account, --account-index, --private-key and --signer');
+  }
+
+  if (options.from !== undefined && !isValidEthereumAddress(options.from)) {
+    throw new Error('Invalid --from address');
+  }
+
+  if (options.signer === 'node') {
+    const nodeUrl = config.getNetwork(options.network, rpcUrl).rpcUrl;
+    const address = await selectSignerAddress(nodeUrl, options.from);
+    return { address, type: 'json-rpc' };
+  }
+
+  if (options.signer.startsWith('rpc:')) {
+    const signerUrl = options.signer.slice('rpc:'.length);
+    if (!/^https?:\/\//.test(signerUrl)) {
+      throw new Error('Remote signer URL must start with http:// or https://');
+    }
+    const address = await selectSignerAddress(signerUrl, options.from);
+    return createRemoteSigner(signerUrl, address);
+  }
+
+  throw new Error('Invalid --signer. Supported: rpc:<url>, node');
+}
+
+// The node signer talks to the network's RPC URL, which may be a WebSocket endpoint (closed by closeRpcSockets)
+function createRpcClient(url: string) {
+  const transport = /^wss?:\/\//.test(url) ? webSocket(url, { retryCount: 0 }) : http(url, { retryCount: 0 });
+  return createWalletClient({ transport });
+}
+
+/**
+ * Uses --from when given, otherwise the first account the signer exposes through eth_accounts.
+ */
+async function selectSignerAddress(url: string, from?: string): Promise<Address> {
+  if (from !== undefined) {
+    return getAddress(from);
+  }
+
+  const accounts = await createRpcClient(url).getAddresses();
+  if (accounts.length === 0) {
+    throw new Error(`Signer at ${url} exposes no accounts, select one with --from <address>`);
+  }
+  return getAddress(accounts[0]);
+}
+
+/**
+ * An account whose signatures come from a remote JSON-RPC signer. viem prepares the transaction
+ * (nonce, gas, fees) against the network node and broadcasts the signed raw transaction there,
+ * so the signer never needs network access.
+ */
+function createRemoteSigner(url: string, address: Address): Account {
+  const client = createRpcClient(url);
+
+  return toAccount({
+    address,
+
+    async signMessage({ message }) {
+      const data = typeof message === 'string'
+        ? stringToHex(message)
+        : typeof message.raw === 'string' ? message.raw : bytesToHex(message.raw);
+      return client.request({ method: 'personal_sign', params: [data, address] });
+    },
+
+    async signTransaction(transaction) {
+      const request = {
+        ...formatTransactionRequest({ ...transaction, from: address } as TransactionRequest),
+        // The RPC request format has no chainId, but signers need it for replay protection
+        chainId: transaction.chainId !== undefined ? numberToHex(transaction.chainId) : undefined,
+      };
+      // geth and Clef answer with { raw, tx }, simpler signers with the raw transaction itself
+      const signed: Hex | { raw: Hex } = await client.request({ method: 'eth_signTransaction', params: [request] });
+      return typeof signed === 'string' ? signed : signed.raw;
+    },
+
+    async signTypedData(typedData) {
+      return client.request({
+        method: 'eth_signTypedData_v4',
+        params: [address, serializeTypedData(typedData)],
+      });
+    },
+  });
+}
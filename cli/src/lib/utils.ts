@@ -1,7 +1,10 @@
 import chalk from 'chalk';
+import type { Command } from 'commander';
 import ora from 'ora';
-import { formatEther, parseEther, isAddress } from 'viem';
+import { formatEther, parseEther, parseGwei, isAddress, zeroAddress } from 'viem';
 import { privateKeyToAccount } from 'viem/accounts';
+import { isJsonMode, recordError, recordWarning } from './output';
+import { CampaignInfo, CampaignStatus, CampaignStatusName, TransactionOptions } from '../types';
 
 export function formatAddress(address: string): string {
   return `${address.slice(0, 6)}...${address.slice(-4)}`;
@@ -83,6 +86,10 @@ export function isValidEthereumAddress(address: string): boolean {
   return isAddress(address);
 }
 
+export function isZeroAddress(address: string): boolean {
+  return address.toLowerCase() === zeroAddress;
+}
+
 export function isValidPrivateKey(privateKey: string): boolean {
   try {
     privateKeyToAccount(`0x${privateKey.replace('0x', '')}` as `0x${string}`);
@@ -93,6 +100,10 @@ export function isValidPrivateKey(privateKey: string): boolean {
 }
 
 export async function confirmAction(message: string): Promise<boolean> {
+  if (isJsonMode()) {
+    throw new Error('Confirmation required, pass --yes when using --json');
+  }
+
   const inquirer = await import('inquirer');
   const { confirm } = await inquirer.default.prompt([
     {
@@ -106,7 +117,7 @@ export async function confirmAction(message: string): Promise<boolean> {
 }
 
 export function createSpinner(text: string) {
-  return ora(text);
+  return ora({ text, isSilent: isJsonMode() });
 }
 
 export function logSuccess(message: string): void {
@@ -114,10 +125,12 @@ export function logSuccess(message: string): void {
 }
 
 export function logError(message: string): void {
+  recordError(message);
   console.log(chalk.red('✗'), message);
 }
 
 export function logWarning(message: string): void {
+  recordWarning(message);
   console.log(chalk.yellow('⚠'), message);
 }
 
@@ -127,17 +140,40 @@ export function logInfo(message: string): void {
 
 export function formatCampaignStatus(status: number): string {
   switch (status) {
-    case 0:
+    case CampaignStatus.Active:
       return chalk.blue('Active');
-    case 1:
+    case CampaignStatus.Cancelled:
       return chalk.yellow('Cancelled');
-    case 2:
+    case CampaignStatus.Claimed:
       return chalk.green('Claimed');
+    case CampaignStatus.Successful:
+      return chalk.green('Successful');
+    case CampaignStatus.Failed:
+      return chalk.red('Failed');
+    case CampaignStatus.Unclaimed:
+      return chalk.magenta('Unclaimed');
+    case CampaignStatus.Finalized:
+      return chalk.gray('Finalized');
     default:
       return chalk.gray('Unknown');
   }
 }
 
+// Indexed by the on-chain Aon.Status enum
+export const CAMPAIGN_STATUS_NAMES: CampaignStatusName[] = [
+  'active',
+  'cancelled',
+  'claimed',
+  'successful',
+  'failed',
+  'unclaimed',
+  'finalized',
+];
+
+export function getCampaignStatusName(info: CampaignInfo): CampaignStatusName {
+  return CAMPAIGN_STATUS_NAMES[info.status];
+}
+
 export function formatTimeRemaining(endTime: number): string {
   const now = Math.floor(Date.now() / 1000);
   const remaining = endTime - now;
@@ -164,6 +200,74 @@ export function validateEthAmount(amount: string, allowZero: boolean = false): s
   }
 }
 
+function parseInteger(value: string, name: string, min: number): number {
+  const parsed = Number(value);
+  if (!/^\d+$/.test(value) || !Number.isSafeInteger(parsed) || parsed < min) {
+    throw new Error(`${name} must be an integer of at least ${min}`);
+  }
+  return parsed;
+}
+
+/**
+ * Options of a subcommand whose parent command defines the same flags (e.g. "contribute batch"):
+ * commander hands such flags to the parent wherever they appear, so take them back from there.
+ * Parent flags the subcommand does not define are rejected, e.g. "contribute batch --dry-run".
+ */
+export function withParentOptions<T extends object>(options: T, command: Command): T {
+  const parent = command.parent;
+  if (!parent) {
+    return options;
+  }
+
+  const merged = { ...options } as Record<string, unknown>;
+  for (const [key, value] of Object.entries(parent.opts())) {
+    const source = parent.getOptionValueSource(key);
+    if (source !== 'cli' && source !== 'env') {
+      continue;
+    }
+
+    if (!command.options.some((option) => option.attributeName() === key)) {
+      const option = parent.options.find((parentOption) => parentOption.attributeName() === key);
+      command.error(`error: unknown option '${option?.long ?? key}'`, { code: 'commander.unknownOption' });
+    }
+    merged[key] = value;
+  }
+  return merged as T;
+}
+
+/**
+ * Parses the submission options of write commands: --gas-price (gwei), --gas-limit, --nonce,
+ * --confirmations and --timeout (a duration like "5m").
+ */
+export function parseTransactionOptions(options: {
+  gasPrice?: string;
+  gasLimit?: string;
+  nonce?: string;
+  confirmations?: string;
+  timeout?: string;
+}): TransactionOptions {
+  let gasPrice: bigint | undefined;
+  if (options.gasPrice !== undefined) {
+    if (!/^\d+(\.\d+)?$/.test(options.gasPrice) || parseGwei(options.gasPrice) <= 0n) {
+      throw new Error('Gas price must be a positive amount in gwei (e.g., "0.07")');
+    }
+    gasPrice = parseGwei(options.gasPrice);
+  }
+
+  const timeout = parseTimeInput(options.timeout ?? '5m');
+  if (timeout <= 0) {
+    throw new Error('Timeout must be greater than 0');
+  }
+
+  return {
+    gasPrice,
+    gasLimit: options.gasLimit !== undefined ? BigInt(parseInteger(options.gasLimit, 'Gas limit', 21000)) : undefined,
+    nonce: options.nonce !== undefined ? parseInteger(options.nonce, 'Nonce', 0) : undefined,
+    confirmations: parseInteger(options.confirmations ?? '1', 'Confirmations', 1),
+    timeout,
+  };
+}
+
 export function getPrivateKeyFromEnv(): string | undefined {
   return process.env.PRIVATE_KEY || process.env.RSK_DEPLOYMENT_PRIVATE_KEY;
 }
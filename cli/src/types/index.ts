@@ -6,6 +6,9 @@ export interface NetworkConfig {
     factory?: string;
     implementation?: string;
     goalStrategy?: string;
+    owner?: string;
+    feeRecipient?: string;
+    swipeRecipient?: string;
   };
 }
 
@@ -24,7 +27,8 @@ export interface CampaignInfo {
   balance: string;
   totalCreatorFee: string;
   totalContributorFee: string;
-  claimOrRefundWindow: number;
+  claimWindow: number;
+  refundWindow: number;
   goalReached: boolean;
   isSuccessful: boolean;
   isFailed: boolean;
@@ -42,24 +46,445 @@ export interface DeploymentResult {
   factory: string;
   implementation: string;
   goalStrategy: string;
+  owner: string;
+  feeRecipient: string;
+  swipeRecipient: string;
   deployer: string;
   network: string;
   blockNumber: number;
+  // Total over the contracts deployed by this run
   gasUsed: string;
+  steps: DeploymentStep[];
+  manifest: string;
+  smokeTestCampaign?: string;
+}
+
+export type DeploymentStepName = DeployedContractName | 'configuration' | 'smokeTest';
+
+export interface DeploymentStep {
+  step: DeploymentStepName;
+  status: 'done' | 'skipped';
+}
+
+export type DeployedContractName = 'implementation' | 'goalStrategy' | 'factory';
+
+export interface DeployedContract {
+  artifact: string;
+  address: string;
+  transactionHash: string;
+  blockNumber: number;
+  gasUsed: string;
+  constructorArgs: Record<string, string>;
+  // keccak256 of the Foundry artifact's creation and runtime bytecode
+  bytecodeHash: string;
+  deployedBytecodeHash: string;
+}
+
+// Written to ~/.aon-cli/deployments/<chainId>/ by every deployment and "factory upgrade"
+export interface DeploymentManifest {
+  version: 1;
+  network: string;
+  chainId: number;
+  deployer: string;
+  deployedAt: string;
+  // An upgrade of a factory deployed elsewhere only records the implementation
+  contracts: Partial<Record<DeployedContractName, DeployedContract>>;
+}
+
+// Progress of "aon-cli deploy" on a chain, contracts that still have code are reused by the next run
+export interface DeploymentCheckpoint {
+  version: 1;
+  network: string;
+  chainId: number;
+  contracts: Partial<Record<DeployedContractName, DeployedContract>>;
+  // A deployment submitted but not confirmed, e.g. when the RPC failed while waiting for the receipt
+  pending?: {
+    contract: DeployedContractName;
+    hash: string;
+  };
+}
+
+// `metadata` means only the compiler metadata hash differs, e.g. a rebuild from a different source path
+export type BytecodeStatus = 'match' | 'metadata' | 'mismatch' | 'no-code';
+
+export interface ContractVerification {
+  contract: DeployedContractName;
+  artifact: string;
+  address: string;
+  status: BytecodeStatus;
+  expectedHash: string;
+  actualHash?: string;
+}
+
+export interface DeploymentVerification {
+  network: string;
+  chainId: number;
+  contracts: ContractVerification[];
+  implementation: {
+    expected: string;
+    actual: string;
+    match: boolean;
+  };
+  manifest?: string;
+  verified: boolean;
+}
+
+export interface CreatedCampaign {
+  address: string;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface CampaignEvent {
+  campaign: string;
+  name: string;
+  args: Record<string, unknown>;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface ContributionEvent {
+  type: 'contribution' | 'refund';
+  contributor: string;
+  amount: string;
+  // Transaction sender and the campaign function it called, if it called the campaign directly
+  sender: string;
+  method?: string;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface ContributorPosition {
+  contributor: string;
+  contributed: string;
+  refunded: string;
+  processingFees: string;
+  expected: string;
+  onChain: string;
+  contributions: number;
+  refunds: number;
+  mismatch: boolean;
+  flags: string[];
+}
+
+export interface CampaignMilestone {
+  name: 'ended' | 'claimWindowClosed' | 'refundWindowClosed';
+  label: string;
+  timestamp: number;
+  passed: boolean;
+}
+
+export interface CampaignTimeline {
+  now: number;
+  milestones: CampaignMilestone[];
+  swipeEligible: boolean;
+  actions: {
+    creator: string[];
+    contributors: string[];
+    factoryOwner: string[];
+  };
+}
+
+// Web3 Secret Storage (version 3), as written by geth, foundry and MetaMask
+export interface KeystoreFile {
+  version: 3;
+  id: string;
+  address: string;
+  crypto: {
+    cipher: 'aes-128-ctr';
+    cipherparams: { iv: string };
+    ciphertext: string;
+    kdf: 'scrypt' | 'pbkdf2';
+    kdfparams: Record<string, number | string>;
+    mac: string;
+  };
+}
+
+export interface KeystoreAccount {
+  name: string;
+  address: string;
+  path: string;
+}
+
+export type DerivationScheme = 'rsk' | 'ethereum';
+
+// Mnemonic encrypted with the same scheme as keystore files
+export interface EncryptedMnemonic {
+  version: 3;
+  id: string;
+  derivation: DerivationScheme;
+  crypto: KeystoreFile['crypto'];
+}
+
+export interface DerivedAccount {
+  index: number;
+  path: string;
+  address: string;
+  privateKey: string;
+}
+
+export type CampaignStatusName =
+  | 'active'
+  | 'successful'
+  | 'failed'
+  | 'unclaimed'
+  | 'cancelled'
+  | 'claimed'
+  | 'finalized';
+
+export interface DeploymentOptions {
+  owner?: string;
+  feeRecipient?: string;
+  swipeRecipient?: string;
+  // Ignore the checkpoint of earlier runs and deploy every contract again
+  fresh?: boolean;
 }
 
 export enum CampaignStatus {
   Active = 0,
   Cancelled = 1,
-  Claimed = 2
+  Claimed = 2,
+  Successful = 3,
+  Failed = 4,
+  Unclaimed = 5,
+  Finalized = 6
 }
 
+// Amounts and fees are wei strings, exactly as signed
 export interface SignatureData {
+  type: 'refund' | 'claim';
+  campaign: string;
+  chainId: number;
   contributor?: string;
   creator?: string;
   swapContract: string;
   amount: string;
   nonce: string;
   deadline: number;
+  processingFee: string;
+  preimageHash: string;
+  refundAddress: string;
   signature: string;
 }
+
+export interface BalanceChange {
+  // Roles sharing the address, e.g. "sender, creator"
+  label: string;
+  address: string;
+  before: string;
+  after: string;
+  delta: string;
+}
+
+// Outcome of a simulated transaction. Amounts are formatted RBTC, gasPrice is in wei
+export interface DryRunResult {
+  action: string;
+  from: string;
+  to?: string;
+  value: string;
+  success: boolean;
+  revertReason?: string;
+  gasEstimate?: string;
+  gasPrice: string;
+  gasCost: string;
+  totalCost: string;
+  balanceChanges: BalanceChange[];
+}
+
+export interface FactoryInfo {
+  address: string;
+  owner: string;
+  implementation: string;
+  feeRecipient: string;
+  swipeRecipient: string;
+}
+
+// `previous` is an earlier deployment on the same chain, recorded in a deployment manifest
+export type DeploymentMatch = 'match' | 'previous' | 'unknown';
+
+export interface CampaignInspection {
+  address: string;
+  chainId: number;
+  // Fields are undefined when their getter reverted, see unreadable
+  implementation?: string;
+  version?: number;
+  factory?: string;
+  goalReachedStrategy?: string;
+  domainSeparator: {
+    expected: string;
+    actual?: string;
+  };
+  checks: {
+    implementation: DeploymentMatch;
+    factory: DeploymentMatch;
+    goalReachedStrategy: DeploymentMatch;
+    domainSeparator: boolean;
+  };
+  // Raw contract state, amounts in wei and windows in seconds
+  state: {
+    claimWindow?: string;
+    refundWindow?: string;
+    totalCreatorFee?: string;
+    totalContributorFee?: string;
+    goalBalance?: string;
+    claimableBalance?: string;
+  };
+  // Getters that reverted or are missing
+  unreadable: string[];
+  healthy: boolean;
+}
+
+export interface ImplementationDeployment {
+  address: string;
+  transactionHash: string;
+  blockNumber: number;
+  // Aon.VERSION, undefined for implementations that predate it
+  version?: number;
+  manifest: string;
+}
+
+// Campaigns grouped by the implementation their proxy delegates to
+export interface ImplementationGroup {
+  implementation: string;
+  version?: number;
+  current: boolean;
+  campaigns: string[];
+}
+
+// A row of "aon-cli contribute batch", amounts in RBTC as written in the file
+export interface ContributionBatchRow {
+  // Line number in the CSV file
+  row: number;
+  campaign: string;
+  contributor: string;
+  amount: string;
+  creatorFee: string;
+  contributorFee: string;
+}
+
+// `pending` was sent but not confirmed, the next run checks its receipt before sending again
+export type ContributionBatchStatus = 'sent' | 'pending' | 'failed' | 'invalid';
+
+export interface ContributionBatchResult extends ContributionBatchRow {
+  status: ContributionBatchStatus;
+  transactionHash?: string;
+  error?: string;
+}
+
+export interface SwipePreview {
+  campaign: string;
+  eligible: boolean;
+  eligibleAt: number;
+  balance: string;
+  feeRecipientAmount: string;
+  swipeRecipientAmount: string;
+  // The recorded fees exceed the balance, swipeFunds would revert
+  feesExceedBalance: boolean;
+  isUnclaimed: boolean;
+}
+
+export interface SwipeResult {
+  hash: string;
+  recipient: string;
+  feeRecipientAmount: string;
+  recipientAmount: string;
+}
+
+// Mirrors Aon.SwapContractLockParams
+export interface SwapContractLockParams {
+  functionSignature: string;
+  preimageHash: string;
+  claimAddress: string;
+  refundAddress: string;
+  timelock: string;
+}
+
+export interface SwapAuthorizationState {
+  amount: string;
+  nonce: string;
+  chainId: number;
+}
+
+export interface SwapClaimResult {
+  hash: string;
+  swapAmount: string;
+  creatorFeeAmount: string;
+  contributorFeeAmount: string;
+}
+
+export interface SwapAuthorizationParams {
+  swapContract: string;
+  deadline: number;
+  processingFeeInEther: string;
+  preimageHash: string;
+  refundAddress: string;
+}
+
+// Submission overrides for write commands, unset fields are resolved from the node
+export interface TransactionOptions {
+  gasPrice?: bigint;
+  gasLimit?: bigint;
+  nonce?: number;
+  confirmations?: number;
+  // Seconds to wait for the receipt
+  timeout?: number;
+}
+
+export interface TransactionReplacement {
+  originalHash: string;
+  hash: string;
+  nonce: number;
+  previousGasPrice: string;
+  gasPrice: string;
+  blockNumber: number;
+}
+
+// A write as a plain call, `to` is omitted for contract creation
+export interface TransactionCall {
+  label: string;
+  to?: `0x${string}`;
+  data: `0x${string}`;
+  value?: bigint;
+}
+
+// Written by --unsigned, signed offline by "aon-cli tx sign" (values in wei)
+export interface UnsignedTransaction {
+  label: string;
+  to: string | null;
+  data: string;
+  value: string;
+  nonce: number;
+  gas: string;
+  gasPrice: string;
+  chainId: number;
+}
+
+export interface UnsignedTransactionFile {
+  version: 1;
+  action: string;
+  network: string;
+  from: string;
+  transactions: UnsignedTransaction[];
+}
+
+export interface SignedTransaction {
+  label: string;
+  hash: string;
+  serialized: string;
+}
+
+// Written by "aon-cli tx sign", submitted by "aon-cli tx broadcast"
+export interface SignedTransactionFile {
+  version: 1;
+  action: string;
+  network: string;
+  from: string;
+  transactions: SignedTransaction[];
+}
+
+export interface BroadcastResult {
+  hash: string;
+  blockNumber: number;
+  gasUsed: string;
+  contractAddress?: string;
+}
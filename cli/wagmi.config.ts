@@ -7,23 +7,13 @@ export default defineConfig({
   plugins: [
     foundry({
       project: '../',
-      deployments: {
-        Factory: {
-          31: '0x', // RSK Testnet - will be populated after deployment
-          30: '0x', // RSK Mainnet - will be populated after deployment
-          31337: '0x', // Local Anvil - will be populated after deployment
-        },
-        Aon: {
-          31: '0x', // RSK Testnet
-          30: '0x', // RSK Mainnet
-          31337: '0x', // Local Anvil
-        },
-        AonGoalReachedNative: {
-          31: '0x', // RSK Testnet
-          30: '0x', // RSK Mainnet
-          31337: '0x', // Local Anvil
-        },
-      },
+      // Deployed addresses live in ~/.aon-cli/config.yaml, only the ABIs are generated
+      include: [
+        'Aon.sol/Aon.json',
+        'AonGoalReachedNative.sol/AonGoalReachedNative.json',
+        'AonProxy.sol/AonProxy.json',
+        'Factory.sol/Factory.json',
+      ],
     }),
   ],
 })